@@ -2,10 +2,9 @@ import {
   Commitment,
   Keypair,
   LAMPORTS_PER_SOL,
-  Signer,
-  Transaction,
 } from "@solana/web3.js";
 import {
+  BulkSender,
   ConnectionManager,
   Disperse,
   TransactionBuilder,
@@ -15,7 +14,9 @@ import {
 
 const COMMITMENT: Commitment = "confirmed";
 const NO_OF_RECEIVERS = 10_000;
-const CHUNK_SIZE = 30;
+const CHUNK_SIZE = 30; // balances fetched at once
+const CONCURRENCY = 30; // transactions sent at once
+const MAX_RPS = 10; // transactions sent per second
 const TOTAL_SOL = 10;
 
 const SKIP_AIRDROP = true;
@@ -94,10 +95,9 @@ const sender = Keypair.fromSecretKey(
       const wrapper = await TransactionWrapper.create({
         connectionManager: cm,
         changeConn: false,
-        signer: keypair.publicKey,
         transaction: tx,
       }).addBlockhashAndFeePayer(keypair.publicKey);
-      const signedTx = await wrapper.sign({ signer: keypair as Signer });
+      const [signedTx] = await wrapper.sign({ signers: [keypair] });
       const sig = await wrapper.sendAndConfirm({
         serialisedTx: signedTx.serialize(),
         commitment: "max",
@@ -155,40 +155,27 @@ const sender = Keypair.fromSecretKey(
       transfers,
     }).generateTransactions();
 
-    const txChunks = chunk(transactions, CHUNK_SIZE);
-    for (let i = 0; i < txChunks.length; i++) {
-      logger.debug(`Sending transactions ${i + 1}/${txChunks.length}`);
-      const txChunk = txChunks[i];
-      const conn = cm.connSync({ changeConn: true });
-
-      await Promise.all(
-        txChunk.map(async (tx: Transaction, i: number) => {
-          logger.debug(`Sending transaction ${i + 1}`);
-
-          // feed transaction into TransactionWrapper
-          const wrapper = await TransactionWrapper.create({
-            connection: conn,
-            transaction: tx,
-            signer: sender.publicKey,
-          }).addBlockhashAndFeePayer(sender.publicKey);
-
-          // sign the transaction
-          logger.debug(`Signing transaction ${i + 1}`);
-          const signedTx = await wrapper.sign({
-            signer: sender as Signer,
-          });
+    // sign, send and confirm the transactions, rotating endpoints and retrying retryable errors
+    const results = await BulkSender.create({
+      connectionManager: cm,
+      feePayer: sender.publicKey,
+      signers: [sender],
+      concurrency: CONCURRENCY,
+      maxRps: MAX_RPS,
+      commitment: COMMITMENT,
+    }).send({
+      transactions,
+      onResult: (result) =>
+        logger.debug(
+          `Transaction ${result.index + 1}/${transactions.length} ${result.status}:`,
+          result.signature
+        ),
+    });
 
-          // send and confirm the transaction
-          logger.debug(`Sending transaction ${i + 1}`);
-          const transferSig = await wrapper.sendAndConfirm({
-            serialisedTx: signedTx.serialize(),
-            commitment: COMMITMENT,
-          });
-          logger.debug("Transaction sent:", transferSig.toString());
-        })
-      );
-      await sleep(1_000);
-    }
+    const failed = results.filter((result) => result.status !== "confirmed");
+    logger.debug(
+      `${results.length - failed.length} transactions confirmed, ${failed.length} failed`
+    );
   }
 
   if (!SKIP_BALANCE_CHECK) {
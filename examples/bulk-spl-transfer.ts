@@ -2,15 +2,13 @@ import {
   Commitment,
   Keypair,
   LAMPORTS_PER_SOL,
-  Signer,
-  Transaction,
   TransactionInstruction,
 } from "@solana/web3.js";
 import {
+  BulkSender,
   ConnectionManager,
   TransactionWrapper,
   Logger,
-  TransactionBuilder,
 } from "@solworks/soltoolkit-sdk";
 import {
   createAssociatedTokenAccountInstruction,
@@ -22,8 +20,11 @@ import {
 
 const COMMITMENT: Commitment = "processed"; // "processed" is the fastest, "max" is ideal but takes longer
 const NO_OF_RECEIVERS = 10_000; // number of users to airdrop to
-const CHUNK_SIZE = 15; // transactions sent at once
+const CHUNK_SIZE = 15; // balances fetched at once
 const DELAY_BETWEEN_CHUNKS_MS = 5_000; // x/100 seconds
+const CONCURRENCY = 15; // transactions sent at once
+const MAX_RPS = 4; // transactions sent per second
+const ATA_COMPUTE_UNITS = 35_000; // compute units used to create a token account
 const SKIP_SENDING = false; // send transactions
 const SKIP_BALANCE_CHECK = true; // fetch balance after sending
 const TOKEN_DECIMALS = 8; // decimals for SPL token
@@ -119,9 +120,8 @@ const sender = Keypair.fromSecretKey(
   }
   logger.debug("Receivers generated");
 
-  // generate transactions
+  // generate instructions
   const missingAccountIxs: TransactionInstruction[] = [];
-  const transactions: Transaction[] = [];
 
   logger.debug("Fetching balance of", associatedAddr.toBase58());
   let senderBal = (
@@ -144,51 +144,31 @@ const sender = Keypair.fromSecretKey(
     missingAccountIxs.push(ix);
   }
 
-  // generate transactions for create mint accounts
-  // split into chunks of 12 ixs
-  const missingAccountIxsChunks = chunk(missingAccountIxs, 12);
-  for (let i = 0; i < missingAccountIxsChunks.length; i++) {
-    const chunk = missingAccountIxsChunks[i];
-    const tx = TransactionBuilder.create().addIx(chunk).build();
-    transactions.push(tx);
-  }
-
   // send transactions
   if (!SKIP_SENDING) {
-    const txChunks = chunk(transactions, CHUNK_SIZE);
-    for (let i = 0; i < txChunks.length; i++) {
-      logger.debug(`Sending transactions ${i + 1}/${txChunks.length}`);
-      const txChunk = txChunks[i];
-      const conn = cm.connSync({ changeConn: true });
-
-      await Promise.all(
-        txChunk.map(async (tx: Transaction, i: number) => {
-          logger.debug(`Sending transaction ${i + 1}`);
-
-          // feed transaction into TransactionWrapper
-          const wrapper = await TransactionWrapper.create({
-            connection: conn,
-            transaction: tx,
-            signer: sender.publicKey,
-          }).addBlockhashAndFeePayer(sender.publicKey);
-
-          // sign the transaction
-          logger.debug(`Signing transaction ${i + 1}`);
-          const signedTx = (await wrapper.sign({
-            signers: [sender as Signer],
-          }))[0];
-
-          // send and confirm the transaction
-          logger.debug(`Sending transaction ${i + 1}`);
-          const transferSig = await wrapper.sendAndConfirm({
-            serialisedTx: signedTx.serialize(),
-            commitment: COMMITMENT,
-          });
-          logger.debug("Transaction sent:", transferSig.toString());
-        })
-      );
-      await sleep(DELAY_BETWEEN_CHUNKS_MS);
-    }
+    // pack the instructions into as few transactions as fit, then sign, send and confirm them,
+    // retrying retryable errors
+    const results = await BulkSender.create({
+      connectionManager: cm,
+      feePayer: sender.publicKey,
+      signers: [sender],
+      concurrency: CONCURRENCY,
+      maxRps: MAX_RPS,
+      commitment: COMMITMENT,
+    }).send({
+      instructions: missingAccountIxs,
+      computeUnits: ATA_COMPUTE_UNITS,
+      onResult: (result) =>
+        logger.debug(
+          `Transaction ${result.index + 1} ${result.status}:`,
+          result.signature
+        ),
+    });
+
+    const failed = results.filter((result) => result.status !== "confirmed");
+    logger.debug(
+      `${results.length - failed.length} transactions confirmed, ${failed.length} failed`
+    );
   }
 
   if (!SKIP_BALANCE_CHECK) {
@@ -1,8 +1,87 @@
 import { TransactionBuilder } from './modules/TransactionBuilder';
-import { TransactionWrapper, getJitoEndpoint, sendTxUsingJito } from './modules/TransactionWrapper';
+import { TransactionWrapper, getJitoEndpoint, sendTxUsingJito, IRebroadcastResult } from './modules/TransactionWrapper';
 import { SingleTransactionWrapper } from './modules/SingleTransactionWrapper';
-import { ConnectionManager, IConnectionManagerConstructor, IRPCSummary, Mode } from './modules/ConnectionManager';
+import {
+    ConnectionManager,
+    IConnectionManagerConstructor,
+    IHealthCheckConfig,
+    IFailoverConfig,
+    IEndpointConfig,
+    EndpointRole,
+    IQuorumReadOptions,
+    IQuorumResult,
+    IConnectionManagerEvents,
+    EndpointChangeReason,
+    IEndpointChangedEvent,
+    IEndpointStatusEvent,
+    IAllEndpointsUnreachableEvent,
+    IProbeConfig,
+    ProbeMethod,
+    EndpointCapability,
+    IRPCSummary,
+    Mode,
+    DEFAULT_NON_RETRYABLE_METHODS,
+    DEFAULT_INSTANCE_NAME
+} from './modules/ConnectionManager';
 import { Disperse, TokenType, IDisperseConstructor } from './modules/Disperse';
+import { RateLimiter, IRateLimitConfig, parseRetryAfter } from './modules/RateLimiter';
+import { CircuitBreaker, CircuitState, ICircuitBreakerConfig } from './modules/CircuitBreaker';
+import {
+    InMemoryMetrics,
+    IMetricsSink,
+    MetricLabels,
+    IInMemoryMetricsConfig,
+    ICounterSnapshot,
+    IHistogramSnapshot,
+    IMetricsSnapshot,
+    METRIC_NAMES,
+    DEFAULT_DURATION_BUCKETS,
+    toPrometheusText
+} from './modules/Metrics';
+import {
+    loadConfig,
+    loadConfigFromEnv,
+    loadConfigFromFile,
+    validateConfig,
+    ConfigError,
+    ConnectionManagerOptions
+} from './modules/ConfigLoader';
+import { RpcBatcher, IBatchConfig, DEFAULT_BATCHED_METHODS } from './modules/RpcBatcher';
+import { RpcCache, ICacheConfig, DEFAULT_CACHED_METHODS } from './modules/RpcCache';
+import { IJsonRpcRequest, IJsonRpcResponse } from './modules/JsonRpc';
+import {
+    LookupTableManager,
+    ILookupTableManagerConstructor,
+    DEFAULT_EXTEND_CHUNK_SIZE
+} from './modules/LookupTableManager';
+import {
+    PriorityFeeEstimator,
+    IPriorityFeeEstimatorConstructor,
+    PriorityLevel,
+    PRIORITY_LEVEL_PERCENTILES
+} from './modules/PriorityFeeEstimator';
+import {
+    SolToolkitError,
+    TimeoutError,
+    RateLimitedError,
+    RpcError,
+    BlockhashExpiredError,
+    TransactionFailedError,
+    InsufficientFundsError,
+    InstructionError,
+    SimulationFailedError,
+    parseError,
+    parseTransactionError,
+    parseSimulationError
+} from './modules/errors';
+import {
+    simulateTransaction,
+    parseLogs,
+    ISimulationResult,
+    IInstructionLog,
+    IBalanceChange
+} from './modules/Simulation';
+import { BulkSender, IBulkSenderConstructor, IBulkSendResult } from './modules/BulkSender';
 import { ITransfer } from './interfaces/ITransfer';
 import { Logger } from './modules/Logger';
 import { TransactionHelper } from './modules/TransactionHelper';
@@ -10,18 +89,92 @@ import SNSDomainResolver from './modules/SNSDomainResolver';
 export {
     TransactionBuilder,
     TransactionWrapper,
+    IRebroadcastResult,
     ConnectionManager,
     Disperse,
     TokenType,
     IDisperseConstructor,
     IConnectionManagerConstructor,
+    IHealthCheckConfig,
+    IFailoverConfig,
+    IEndpointConfig,
+    EndpointRole,
+    IQuorumReadOptions,
+    IQuorumResult,
+    IConnectionManagerEvents,
+    EndpointChangeReason,
+    IEndpointChangedEvent,
+    IEndpointStatusEvent,
+    IAllEndpointsUnreachableEvent,
+    IProbeConfig,
+    ProbeMethod,
+    EndpointCapability,
     IRPCSummary,
     Mode,
+    DEFAULT_NON_RETRYABLE_METHODS,
+    DEFAULT_INSTANCE_NAME,
     ITransfer,
     Logger,
     TransactionHelper,
     SNSDomainResolver,
     getJitoEndpoint,
     sendTxUsingJito,
-    SingleTransactionWrapper
+    SingleTransactionWrapper,
+    RateLimiter,
+    IRateLimitConfig,
+    parseRetryAfter,
+    CircuitBreaker,
+    CircuitState,
+    ICircuitBreakerConfig,
+    InMemoryMetrics,
+    IMetricsSink,
+    MetricLabels,
+    IInMemoryMetricsConfig,
+    ICounterSnapshot,
+    IHistogramSnapshot,
+    IMetricsSnapshot,
+    METRIC_NAMES,
+    DEFAULT_DURATION_BUCKETS,
+    toPrometheusText,
+    loadConfig,
+    loadConfigFromEnv,
+    loadConfigFromFile,
+    validateConfig,
+    ConfigError,
+    ConnectionManagerOptions,
+    RpcBatcher,
+    IBatchConfig,
+    DEFAULT_BATCHED_METHODS,
+    RpcCache,
+    ICacheConfig,
+    DEFAULT_CACHED_METHODS,
+    IJsonRpcRequest,
+    IJsonRpcResponse,
+    LookupTableManager,
+    ILookupTableManagerConstructor,
+    DEFAULT_EXTEND_CHUNK_SIZE,
+    PriorityFeeEstimator,
+    IPriorityFeeEstimatorConstructor,
+    PriorityLevel,
+    PRIORITY_LEVEL_PERCENTILES,
+    SolToolkitError,
+    TimeoutError,
+    RateLimitedError,
+    RpcError,
+    BlockhashExpiredError,
+    TransactionFailedError,
+    InsufficientFundsError,
+    InstructionError,
+    SimulationFailedError,
+    parseError,
+    parseTransactionError,
+    parseSimulationError,
+    simulateTransaction,
+    parseLogs,
+    ISimulationResult,
+    IInstructionLog,
+    IBalanceChange,
+    BulkSender,
+    IBulkSenderConstructor,
+    IBulkSendResult
 };
@@ -0,0 +1,277 @@
+import {
+    BlockhashWithExpiryBlockHeight,
+    Commitment,
+    PublicKey,
+    Signer,
+    Transaction,
+    TransactionInstruction
+} from '@solana/web3.js';
+import { ILogger } from '../interfaces/ILogger';
+import { IWallet } from '../interfaces/IWallet';
+import { ConnectionManager } from './ConnectionManager';
+import { BlockhashExpiredError, parseError, parseTransactionError, RateLimitedError, SolToolkitError } from './errors';
+import { Logger } from './Logger';
+import { RateLimiter } from './RateLimiter';
+import { TransactionBuilder } from './TransactionBuilder';
+import { TransactionWrapper } from './TransactionWrapper';
+import { sleep } from './utils';
+
+/**
+ * Signs, sends and confirms many transactions with bounded concurrency and rate, rotating endpoints through a
+ * ConnectionManager and retrying errors classified as retryable by `parseError()`.
+ *
+ * @remarks
+ * Transactions share a blockhash, which is refreshed periodically and whenever one expires. A transaction is only signed
+ * again once the block height is past the last valid block height of its blockhash, until then the same signed
+ * transaction is resent, so a retried send never lands twice.
+ *
+ * @example
+ * ```typescript
+ * const sender = BulkSender.create({ connectionManager: cm, feePayer: payer.publicKey, signers: [payer], concurrency: 20, maxRps: 10 });
+ * const results = await sender.send({ instructions: transfers });
+ * const failed = results.filter((result) => result.status !== 'confirmed');
+ * ```
+ */
+export class BulkSender {
+    private _connectionManager: ConnectionManager;
+    private _feePayer: PublicKey;
+    private _wallet?: IWallet;
+    private _signers?: Signer[];
+    private _concurrency: number;
+    private _limiter: RateLimiter;
+    private _maximumRetries: number;
+    private _retryDelayMs: number;
+    private _commitment: Commitment;
+    private _skipPreflight: boolean;
+    private _blockhashRefreshMs: number;
+    private _blockhash?: Promise<{ value: BlockhashWithExpiryBlockHeight; fetchedAt: number }>;
+    private _logger: ILogger = new Logger('@soltoolkit/BulkSender');
+
+    private constructor({
+        connectionManager,
+        feePayer,
+        wallet,
+        signers,
+        concurrency = 10,
+        maxRps,
+        maximumRetries = 3,
+        retryDelayMs = 1_000,
+        commitment = 'confirmed',
+        skipPreflight = false,
+        blockhashRefreshMs = 20_000
+    }: IBulkSenderConstructor) {
+        if (!wallet && !signers) {
+            throw new Error('No wallet or signers provided');
+        }
+        this._connectionManager = connectionManager;
+        this._feePayer = feePayer;
+        this._wallet = wallet;
+        this._signers = signers;
+        this._concurrency = Math.max(concurrency, 1);
+        this._limiter = RateLimiter.create({ maxRps });
+        this._maximumRetries = maximumRetries;
+        this._retryDelayMs = retryDelayMs;
+        this._commitment = commitment;
+        this._skipPreflight = skipPreflight;
+        this._blockhashRefreshMs = blockhashRefreshMs;
+    }
+
+    public static create(values: IBulkSenderConstructor): BulkSender {
+        return new BulkSender(values);
+    }
+
+    /**
+     * Sends transactions, or instructions packed into transactions with `TransactionBuilder.pack()`.
+     * @param transactions - Unsigned transactions. The blockhash and fee payer are set by the sender.
+     * @param instructions - Instructions to pack instead. Instructions in a nested array are kept in the same transaction.
+     * @param computeUnits - The compute units each packed instruction uses, or a function estimating them. If not provided, transactions are split by size only and set no limit.
+     * @param priceInMicroLamports - The compute unit price of packed transactions. If not provided, no price instruction is added.
+     * @param onResult - Called as each transaction settles, e.g. to report progress. Errors it throws are logged.
+     * @returns A result per transaction, in the order sent. Sending never throws for a single transaction.
+     */
+    public async send({
+        transactions = [],
+        instructions,
+        computeUnits,
+        priceInMicroLamports,
+        onResult
+    }: {
+        transactions?: Transaction[];
+        instructions?: (TransactionInstruction | TransactionInstruction[])[];
+        computeUnits?: number | ((instruction: TransactionInstruction) => number);
+        priceInMicroLamports?: number;
+        onResult?: (result: IBulkSendResult) => void;
+    }): Promise<IBulkSendResult[]> {
+        const items =
+            instructions !== undefined
+                ? TransactionBuilder.pack({
+                      instructions,
+                      feePayer: this._feePayer,
+                      computeUnits,
+                      priceInMicroLamports
+                  })
+                : transactions;
+        this._logger.debug(`Sending ${items.length} transactions with a concurrency of ${this._concurrency}`);
+
+        const results: IBulkSendResult[] = new Array(items.length);
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await this.sendOne(index, items[index]);
+                try {
+                    onResult?.(results[index]);
+                } catch (e) {
+                    // a failing callback must not fail the other transactions
+                    this._logger.warn(`onResult failed for transaction ${index}`, e);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(this._concurrency, items.length) }, worker));
+
+        const confirmed = results.filter((result) => result.status === 'confirmed').length;
+        this._logger.debug(`${confirmed} of ${items.length} transactions confirmed`);
+        return results;
+    }
+
+    private async sendOne(index: number, transaction: Transaction): Promise<IBulkSendResult> {
+        let blockhash: BlockhashWithExpiryBlockHeight | undefined;
+        let expired: BlockhashWithExpiryBlockHeight | undefined;
+        let signature: string | undefined;
+        let error: SolToolkitError | undefined;
+        let attempts = 0;
+
+        while (attempts <= this._maximumRetries) {
+            attempts++;
+            // rotate to the next send endpoint on every attempt
+            const wrapper = TransactionWrapper.create({
+                connection: this._connectionManager.sendConn({ changeConn: true }),
+                transaction,
+                metrics: this._connectionManager.metrics
+            });
+            try {
+                if (blockhash === undefined) {
+                    const latest = await this.getBlockhash(expired);
+                    transaction.recentBlockhash = latest.blockhash;
+                    transaction.feePayer = this._feePayer;
+                    [transaction] = await wrapper.sign({ wallet: this._wallet, signers: this._signers });
+                    blockhash = latest;
+                }
+
+                const serialisedTx = transaction.serialize();
+                signature = await this._limiter.schedule(() =>
+                    wrapper.sendTx({ serialisedTx, skipPreflight: this._skipPreflight })
+                );
+                const result = await wrapper.confirmTx({ signature, commitment: this._commitment, blockhash });
+                if (result.value.err !== null) {
+                    throw parseTransactionError(result.value.err);
+                }
+                return { index, status: 'confirmed', signature, attempts };
+            } catch (e) {
+                error = parseError(e);
+                if (!error.retryable) break;
+
+                this._logger.warn(`Transaction ${index} failed, retrying...`, error);
+                if (error instanceof BlockhashExpiredError) {
+                    // a preflight check may not know the blockhash yet, the transaction can land until it expires
+                    if (blockhash === undefined || (await this.isExpired(blockhash))) {
+                        expired = blockhash;
+                        blockhash = undefined;
+                    }
+                } else if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+                    this._limiter.pauseFor(error.retryAfterMs);
+                }
+                if (attempts <= this._maximumRetries) {
+                    await sleep(this._retryDelayMs);
+                }
+            }
+        }
+
+        return {
+            index,
+            status: error instanceof BlockhashExpiredError ? 'expired' : 'failed',
+            signature,
+            error,
+            attempts
+        };
+    }
+
+    /**
+     * Returns the blockhash shared by the transactions, fetching a new one once it is older than the refresh interval.
+     * @param expired - A blockhash that expired. A new blockhash is fetched unless the shared one expires later.
+     */
+    private async getBlockhash(expired?: BlockhashWithExpiryBlockHeight): Promise<BlockhashWithExpiryBlockHeight> {
+        const cached = await this._blockhash?.catch(() => undefined);
+        // transactions expiring together refresh once, the first one replaces the shared blockhash for the others
+        if (
+            cached === undefined ||
+            Date.now() - cached.fetchedAt > this._blockhashRefreshMs ||
+            (expired !== undefined && cached.value.lastValidBlockHeight <= expired.lastValidBlockHeight)
+        ) {
+            this._blockhash = this._connectionManager
+                .readConn()
+                .getLatestBlockhash(this._commitment)
+                .then((value) => ({ value, fetchedAt: Date.now() }));
+        }
+        return (await this._blockhash!).value;
+    }
+
+    /**
+     * Returns true if transactions signed with the blockhash can no longer land.
+     * @param blockhash - The blockhash and the block height it expires at.
+     */
+    private async isExpired(blockhash: BlockhashWithExpiryBlockHeight): Promise<boolean> {
+        try {
+            const blockHeight = await this._connectionManager.readConn().getBlockHeight(this._commitment);
+            return blockHeight > blockhash.lastValidBlockHeight;
+        } catch (e) {
+            // resending the same transaction is safe, signing it again is not
+            this._logger.warn('Failed to get the block height', e);
+            return false;
+        }
+    }
+}
+
+/**
+ * The outcome of sending one transaction.
+ * @param {number} index - The position of the transaction in the batch.
+ * @param {'confirmed' | 'failed' | 'expired'} status - Whether the transaction landed successfully, failed, or expired on every attempt.
+ * @param {string=} signature - The signature of the last transaction sent, if any was sent.
+ * @param {SolToolkitError=} error - The last error, classified by `parseError()`.
+ * @param {number} attempts - The number of times the transaction was sent.
+ */
+export interface IBulkSendResult {
+    index: number;
+    status: 'confirmed' | 'failed' | 'expired';
+    signature?: string;
+    error?: SolToolkitError;
+    attempts: number;
+}
+
+/**
+ * Options for a bulk sender.
+ * @param {ConnectionManager} connectionManager - The connection manager. Transactions are sent through its send endpoints, rotating on every attempt.
+ * @param {PublicKey} feePayer - The fee payer of every transaction.
+ * @param {IWallet=} wallet - Signs transactions. Either a wallet or signers must be provided.
+ * @param {Signer[]=} signers - Sign transactions.
+ * @param {number=} concurrency - The most transactions sent and confirmed at once. Defaults to 10.
+ * @param {number=} maxRps - The most transactions sent per second. Unlimited if not provided.
+ * @param {number=} maximumRetries - The most times to retry a transaction after a retryable error. Defaults to 3.
+ * @param {number=} retryDelayMs - How long to wait before retrying, in milliseconds. Defaults to 1,000.
+ * @param {Commitment=} commitment - The commitment to confirm transactions at. Defaults to 'confirmed'.
+ * @param {boolean=} skipPreflight - Whether to skip the preflight check. Defaults to false.
+ * @param {number=} blockhashRefreshMs - How long transactions share a blockhash before a new one is fetched, in milliseconds. Defaults to 20,000.
+ */
+export interface IBulkSenderConstructor {
+    connectionManager: ConnectionManager;
+    feePayer: PublicKey;
+    wallet?: IWallet;
+    signers?: Signer[];
+    concurrency?: number;
+    maxRps?: number;
+    maximumRetries?: number;
+    retryDelayMs?: number;
+    commitment?: Commitment;
+    skipPreflight?: boolean;
+    blockhashRefreshMs?: number;
+}
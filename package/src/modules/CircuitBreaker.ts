@@ -0,0 +1,120 @@
+/**
+ * A circuit breaker for a single endpoint.
+ *
+ * @remarks
+ * The breaker starts closed. After `failureThreshold` consecutive failures it opens and requests should not be sent.
+ * Once `cooldownMs` has passed it becomes half-open: the next request is a trial, closing the breaker on success
+ * and re-opening it on failure. Other requests are rejected while the trial is in flight.
+ */
+export class CircuitBreaker {
+    private _failureThreshold: number;
+    private _cooldownMs: number;
+    private _state: CircuitState = 'closed';
+    private _openedAt = 0;
+    private _consecutiveFailures = 0;
+    private _errorCount = 0;
+    private _lastError?: string;
+    private _trialInFlight = false;
+
+    private constructor({ failureThreshold = 5, cooldownMs = 30_000 }: ICircuitBreakerConfig) {
+        this._failureThreshold = failureThreshold;
+        this._cooldownMs = cooldownMs;
+    }
+
+    public static create(values: ICircuitBreakerConfig = {}): CircuitBreaker {
+        return new CircuitBreaker(values);
+    }
+
+    /**
+     * The current state, moving from open to half-open once the cool-down has passed.
+     */
+    public get state(): CircuitState {
+        if (this._state === 'open' && Date.now() - this._openedAt >= this._cooldownMs) {
+            this._state = 'half-open';
+        }
+        return this._state;
+    }
+
+    /**
+     * The total number of failures recorded.
+     */
+    public get errorCount(): number {
+        return this._errorCount;
+    }
+
+    /**
+     * The message of the last failure recorded.
+     */
+    public get lastError(): string | undefined {
+        return this._lastError;
+    }
+
+    /**
+     * Returns false while the breaker is open, or half-open with a trial request in flight.
+     */
+    public canRequest(): boolean {
+        const state = this.state;
+        return state === 'closed' || (state === 'half-open' && !this._trialInFlight);
+    }
+
+    /**
+     * Reserves a request about to be sent. While half-open, the first request reserved is the trial and later ones are
+     * rejected until its result is recorded or `releaseTrial()` is called.
+     * @returns False if the request should not be sent.
+     */
+    public tryRequest(): boolean {
+        if (!this.canRequest()) return false;
+        if (this._state === 'half-open') this._trialInFlight = true;
+        return true;
+    }
+
+    /**
+     * Ends the trial request without recording a result, e.g. when it got a response that says nothing about the endpoint's health.
+     */
+    public releaseTrial(): void {
+        this._trialInFlight = false;
+    }
+
+    /**
+     * Records a successful request, closing the breaker.
+     */
+    public recordSuccess(): void {
+        this._trialInFlight = false;
+        this._consecutiveFailures = 0;
+        this._state = 'closed';
+    }
+
+    /**
+     * Records a failed request, opening the breaker if the trial request failed or the failure threshold is reached.
+     * @param error - The error or message describing the failure.
+     */
+    public recordFailure(error: unknown): void {
+        this._trialInFlight = false;
+        this._consecutiveFailures++;
+        this._errorCount++;
+        this._lastError = error instanceof Error ? error.message : String(error);
+
+        if (this.state === 'half-open' || this._consecutiveFailures >= this._failureThreshold) {
+            this._state = 'open';
+            this._openedAt = Date.now();
+        }
+    }
+}
+
+/**
+ * The state of a circuit breaker.
+ * @param {string} closed - Requests are allowed.
+ * @param {string} open - Requests are blocked until the cool-down has passed.
+ * @param {string} half-open - The cool-down has passed, a single trial request decides whether the breaker closes or re-opens.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a circuit breaker.
+ * @param {number=} failureThreshold - Consecutive failures before the breaker opens. Defaults to 5.
+ * @param {number=} cooldownMs - Time the breaker stays open before allowing a trial request, in milliseconds. Defaults to 30,000.
+ */
+export interface ICircuitBreakerConfig {
+    failureThreshold?: number;
+    cooldownMs?: number;
+}
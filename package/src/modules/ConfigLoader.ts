@@ -0,0 +1,366 @@
+import { Cluster, Commitment } from '@solana/web3.js';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import YAML from 'yaml';
+import { EndpointRole, IConnectionManagerConstructor, IEndpointConfig, Mode } from './ConnectionManager';
+import { SolToolkitError } from './errors';
+
+/**
+ * The options accepted by `ConnectionManager.getInstance()` and `ConnectionManager.create()`.
+ */
+export type ConnectionManagerOptions = Omit<IConnectionManagerConstructor, 'rpcSummary'>;
+
+/**
+ * Thrown when a configuration file or environment variables contain invalid values.
+ * Every problem found is listed in `issues`.
+ */
+export class ConfigError extends SolToolkitError {
+    public issues: string[];
+
+    constructor(source: string, issues: string[]) {
+        super(`Invalid configuration in ${source}:\n  - ${issues.join('\n  - ')}`);
+        this.name = 'ConfigError';
+        this.issues = issues;
+    }
+}
+
+// records keep these lists in sync with the union types
+const MODES: { [mode in Mode]: true } = {
+    single: true,
+    first: true,
+    last: true,
+    'round-robin': true,
+    random: true,
+    fastest: true,
+    'highest-slot': true,
+    'latest-valid-block-height': true,
+    weighted: true,
+    'least-latency': true
+};
+// localnet is not part of web3.js' Cluster type but is supported by ConnectionManager.getDefaultEndpoint()
+const NETWORKS: { [network in Cluster | 'localnet']: true } = {
+    'mainnet-beta': true,
+    testnet: true,
+    devnet: true,
+    localnet: true
+};
+const COMMITMENTS: { [commitment in Commitment]: true } = {
+    processed: true,
+    confirmed: true,
+    finalized: true,
+    recent: true,
+    single: true,
+    singleGossip: true,
+    root: true,
+    max: true
+};
+const ROLES: { [role in EndpointRole]: true } = { read: true, send: true, subscribe: true, airdrop: true };
+
+/**
+ * Reads ConnectionManager options from environment variables.
+ *
+ * @remarks
+ * The following variables are read, each prefixed with `prefix`:
+ * - `NETWORK` - The cluster, e.g. "mainnet-beta".
+ * - `ENDPOINT` - A single endpoint url.
+ * - `ENDPOINTS` - Comma-separated endpoint urls.
+ * - `MODE` - The endpoint selection mode, e.g. "fastest".
+ * - `COMMITMENT` - The commitment level, e.g. "confirmed".
+ * - `NAME` - The name the instance is registered under.
+ * - `VERBOSE` - "true" or "false".
+ * - `TRANSACTION_TIMEOUT` - In milliseconds.
+ * - `MAX_SLOT_LAG` - In slots.
+ * - `HEALTH_CHECK_INTERVAL_MS` - Enables the health check loop with this interval.
+ *
+ * @param env - The environment to read from. Defaults to `process.env`.
+ * @param prefix - The prefix of every variable. Defaults to "SOLTOOLKIT_".
+ * @returns The options set by the environment. Not validated, use `loadConfig()` to validate them.
+ */
+export function loadConfigFromEnv(
+    env: { [key: string]: string | undefined } = process.env,
+    prefix: string = 'SOLTOOLKIT_'
+): Partial<ConnectionManagerOptions> {
+    const read = (key: string) => {
+        const value = env[prefix + key]?.trim();
+        return value === undefined || value === '' ? undefined : value;
+    };
+    const options: { [key: string]: unknown } = {};
+
+    const stringKeys: [string, keyof ConnectionManagerOptions][] = [
+        ['NETWORK', 'network'],
+        ['ENDPOINT', 'endpoint'],
+        ['MODE', 'mode'],
+        ['COMMITMENT', 'commitment'],
+        ['NAME', 'name']
+    ];
+    for (const [key, option] of stringKeys) {
+        if (read(key) !== undefined) options[option] = read(key);
+    }
+
+    const endpoints = read('ENDPOINTS');
+    if (endpoints !== undefined) {
+        options.endpoints = endpoints
+            .split(',')
+            .map((endpoint) => endpoint.trim())
+            .filter((endpoint) => endpoint !== '');
+    }
+
+    const verbose = read('VERBOSE');
+    if (verbose !== undefined) {
+        // invalid values are kept as strings so validation reports them
+        options.verbose = /^(true|1)$/i.test(verbose) ? true : /^(false|0)$/i.test(verbose) ? false : verbose;
+    }
+
+    const numberKeys: [string, keyof ConnectionManagerOptions][] = [
+        ['TRANSACTION_TIMEOUT', 'transactionTimeout'],
+        ['MAX_SLOT_LAG', 'maxSlotLag']
+    ];
+    for (const [key, option] of numberKeys) {
+        const value = read(key);
+        if (value !== undefined) options[option] = isNaN(Number(value)) ? value : Number(value);
+    }
+
+    const healthCheckInterval = read('HEALTH_CHECK_INTERVAL_MS');
+    if (healthCheckInterval !== undefined) {
+        options.healthCheck = {
+            enabled: true,
+            intervalMs: isNaN(Number(healthCheckInterval)) ? healthCheckInterval : Number(healthCheckInterval)
+        };
+    }
+
+    return options as Partial<ConnectionManagerOptions>;
+}
+
+/**
+ * Reads a JSON or YAML configuration file.
+ *
+ * @remarks
+ * Top-level values apply to every profile. Values under `profiles.<name>` override them for that profile, e.g.
+ * ```yaml
+ * commitment: confirmed
+ * profiles:
+ *   mainnet-beta:
+ *     mode: fastest
+ *     endpoints:
+ *       - https://api.mainnet-beta.solana.com
+ *       - url: https://rpc.example.com
+ *         headers: { x-api-key: "..." }
+ *         roles: [send]
+ *   devnet:
+ *     endpoint: https://api.devnet.solana.com
+ * ```
+ * A profile named after a network uses that network unless it sets `network` itself.
+ *
+ * @param path - The path to the file. Files ending in ".yaml" or ".yml" are parsed as YAML, all others as JSON.
+ * @param profile - The profile to use. Defaults to the profile named after the top-level `network`, if there is one.
+ * @param required - If false, a missing profile is ignored instead of throwing. Defaults to true if `profile` is provided.
+ * @returns The options set by the file. Not validated, use `loadConfig()` to validate them.
+ */
+export function loadConfigFromFile(
+    path: string,
+    profile?: string,
+    required: boolean = profile !== undefined
+): Partial<ConnectionManagerOptions> {
+    let contents: string;
+    try {
+        contents = readFileSync(path, 'utf8');
+    } catch (e) {
+        throw new ConfigError(path, [`Could not read file: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? YAML.parse(contents) : JSON.parse(contents);
+    } catch (e) {
+        throw new ConfigError(path, [`Could not parse file: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+
+    if (!isObject(parsed)) {
+        throw new ConfigError(path, ['Expected an object at the top level']);
+    }
+
+    const { profiles, ...base } = parsed;
+    profile = profile ?? (typeof base.network === 'string' ? base.network : undefined);
+    const profileOptions = isObject(profiles) && profile !== undefined ? profiles[profile] : undefined;
+    if (profile === undefined || (!required && !isObject(profileOptions))) {
+        return base as Partial<ConnectionManagerOptions>;
+    }
+    if (!isObject(profileOptions)) {
+        const available = isObject(profiles) ? Object.keys(profiles).join(', ') : 'none';
+        throw new ConfigError(path, [`Profile "${profile}" not found (available profiles: ${available})`]);
+    }
+
+    const profileNetwork = isOneOf(profile, NETWORKS) ? { network: profile } : {};
+    return { ...base, ...profileNetwork, ...profileOptions } as Partial<ConnectionManagerOptions>;
+}
+
+/**
+ * Loads ConnectionManager options from a configuration file and environment variables, and validates them.
+ *
+ * @remarks
+ * Environment variables override values from the file. The file is read from `file`, or the `CONFIG` variable.
+ * The profile is `profile`, or the `PROFILE` variable, or else the profile named after the `NETWORK` variable or the
+ * top-level `network` in the file, if the file has one.
+ *
+ * @example
+ * ```typescript
+ * const cm = await ConnectionManager.getInstance(loadConfig({ file: './soltoolkit.yaml' }));
+ * ```
+ *
+ * @param file - The path to a JSON or YAML configuration file. Optional.
+ * @param profile - The profile to use from the file. Optional.
+ * @param env - The environment to read from. Defaults to `process.env`.
+ * @param prefix - The prefix of every environment variable. Defaults to "SOLTOOLKIT_".
+ * @param overrides - Options applied over the file and environment, e.g. a `metrics` sink.
+ * @returns The validated options, ready for `ConnectionManager.getInstance()`.
+ */
+export function loadConfig({
+    file,
+    profile,
+    env = process.env,
+    prefix = 'SOLTOOLKIT_',
+    overrides = {}
+}: {
+    file?: string;
+    profile?: string;
+    env?: { [key: string]: string | undefined };
+    prefix?: string;
+    overrides?: Partial<ConnectionManagerOptions>;
+} = {}): ConnectionManagerOptions {
+    const envOptions = loadConfigFromEnv(env, prefix);
+    const path = file ?? env[`${prefix}CONFIG`];
+    const explicitProfile = profile ?? env[`${prefix}PROFILE`];
+    const fileOptions = path
+        ? loadConfigFromFile(path, explicitProfile ?? envOptions.network, explicitProfile !== undefined)
+        : {};
+
+    const source = [path, Object.keys(envOptions).length > 0 ? `${prefix}* environment variables` : undefined]
+        .filter((s) => s !== undefined)
+        .join(' and ');
+    return validateConfig({ ...fileOptions, ...envOptions, ...overrides }, source || 'options');
+}
+
+/**
+ * Validates ConnectionManager options, e.g. parsed from a file.
+ * @param options - The options to validate.
+ * @param source - Where the options came from, used in the error message.
+ * @returns The options, typed.
+ * @throws {ConfigError} If any option is missing or invalid.
+ */
+export function validateConfig(options: unknown, source: string = 'options'): ConnectionManagerOptions {
+    if (!isObject(options)) {
+        throw new ConfigError(source, ['Expected an object']);
+    }
+
+    const issues: string[] = [];
+    const oneOf = (key: string, values: object) => {
+        const value = options[key];
+        if (value !== undefined && !isOneOf(value, values)) {
+            issues.push(`"${key}" must be one of ${Object.keys(values).join(', ')}; got ${JSON.stringify(value)}`);
+        }
+    };
+    const ofType = (key: string, type: 'string' | 'boolean' | 'object') => {
+        const value = options[key];
+        if (value !== undefined && (typeof value !== type || value === null || Array.isArray(value))) {
+            issues.push(`"${key}" must be ${type === 'object' ? 'an' : 'a'} ${type}; got ${JSON.stringify(value)}`);
+        }
+    };
+    const number = (key: string, { min, max }: { min?: number; max?: number } = {}) => {
+        const value = options[key];
+        if (value === undefined) return;
+        if (typeof value !== 'number' || isNaN(value)) {
+            issues.push(`"${key}" must be a number; got ${JSON.stringify(value)}`);
+        } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+            issues.push(`"${key}" must be between ${min ?? '-Infinity'} and ${max ?? 'Infinity'}; got ${value}`);
+        }
+    };
+
+    if (options.network === undefined) {
+        issues.push(`"network" is required, one of ${Object.keys(NETWORKS).join(', ')}`);
+    } else {
+        oneOf('network', NETWORKS);
+    }
+    oneOf('mode', MODES);
+    oneOf('commitment', COMMITMENTS);
+    ofType('name', 'string');
+    ofType('verbose', 'boolean');
+    ofType('config', 'object');
+    ofType('healthCheck', 'object');
+    ofType('failover', 'object');
+    ofType('rateLimit', 'object');
+    ofType('circuitBreaker', 'object');
+    ofType('endpointWeights', 'object');
+    number('transactionTimeout', { min: 0 });
+    number('latencyAlpha', { min: 0, max: 1 });
+    number('maxSlotLag', { min: 0 });
+    if (isObject(options.healthCheck)) {
+        issues.push(...positive(options.healthCheck, 'healthCheck', ['intervalMs']));
+    }
+    if (isObject(options.rateLimit)) {
+        // a limit of 0 would never grant a request
+        issues.push(...positive(options.rateLimit, 'rateLimit', ['maxRps', 'maxConcurrent']));
+    }
+
+    if (options.endpoint !== undefined) {
+        issues.push(...validateEndpoint(options.endpoint, 'endpoint'));
+    }
+    if (options.endpoints !== undefined) {
+        if (!Array.isArray(options.endpoints)) {
+            issues.push(`"endpoints" must be an array; got ${JSON.stringify(options.endpoints)}`);
+        } else {
+            options.endpoints.forEach((endpoint, i) => issues.push(...validateEndpoint(endpoint, `endpoints[${i}]`)));
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigError(source, issues);
+    }
+    return options as unknown as ConnectionManagerOptions;
+}
+
+function validateEndpoint(endpoint: unknown, key: string): string[] {
+    const url = isObject(endpoint) ? endpoint.url : endpoint;
+    if (typeof url !== 'string') {
+        return [`"${key}" must be a url or an object with a "url"; got ${JSON.stringify(endpoint)}`];
+    }
+    if (!/^https?:\/\/[^\s]+$/.test(url)) {
+        return [`"${key}" must be an http(s) url; got ${JSON.stringify(url)}`];
+    }
+
+    const issues: string[] = [];
+    if (isObject(endpoint)) {
+        const { roles } = endpoint as Partial<IEndpointConfig>;
+        if (roles !== undefined && !(Array.isArray(roles) && roles.every((role) => isOneOf(role, ROLES)))) {
+            const expected = Object.keys(ROLES).join(', ');
+            issues.push(`"${key}.roles" must be an array of ${expected}; got ${JSON.stringify(roles)}`);
+        }
+        const weight = endpoint.weight;
+        if (weight !== undefined && !(typeof weight === 'number' && weight >= 0)) {
+            issues.push(`"${key}.weight" must be a non-negative number; got ${JSON.stringify(weight)}`);
+        }
+        issues.push(...positive(endpoint, key, ['maxRps', 'maxConcurrent']));
+    }
+    return issues;
+}
+
+/**
+ * Returns an issue for each of the keys of the object that is set but not a positive number.
+ */
+function positive(object: { [key: string]: unknown }, key: string, numberKeys: string[]): string[] {
+    return numberKeys
+        .filter((numberKey) => {
+            const value = object[numberKey];
+            return value !== undefined && !(typeof value === 'number' && value > 0);
+        })
+        .map(
+            (numberKey) => `"${key}.${numberKey}" must be a positive number; got ${JSON.stringify(object[numberKey])}`
+        );
+}
+
+function isOneOf(value: unknown, values: object): boolean {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(values, value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
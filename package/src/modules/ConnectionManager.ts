@@ -1,12 +1,40 @@
-import { Cluster, Commitment, Connection, ConnectionConfig } from '@solana/web3.js';
+import { Cluster, Commitment, Connection, ConnectionConfig, SolanaJSONRPCError, Version } from '@solana/web3.js';
+import { EventEmitter } from 'events';
+import nodeFetch from 'node-fetch';
 import { ILogger } from '../interfaces/ILogger';
 import { Logger } from './Logger';
+import { isRetryableRpcError, percentile, rejectAfter } from './utils';
+import { IRateLimitConfig, parseRetryAfter, RateLimiter } from './RateLimiter';
+import { CircuitBreaker, CircuitState, ICircuitBreakerConfig } from './CircuitBreaker';
+import { IMetricsSink, METRIC_NAMES, MetricLabels } from './Metrics';
+import { FetchFn, IJsonRpcResponse, parseJsonRpcRequest } from './JsonRpc';
+import { IBatchConfig, RpcBatcher } from './RpcBatcher';
+import { ICacheConfig, RpcCache } from './RpcCache';
+import { RpcError } from './errors';
+
+/**
+ * Connection methods that are never retried on another endpoint by `failoverConn()` unless overridden.
+ */
+export const DEFAULT_NON_RETRYABLE_METHODS = [
+    'sendTransaction',
+    'sendRawTransaction',
+    'sendEncodedTransaction',
+    'requestAirdrop'
+];
+
+/**
+ * The name used by `getInstance()` and `getInstanceSync()` when no name is provided.
+ */
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+// JSON-RPC error code returned for methods the node does not implement
+const METHOD_NOT_FOUND = -32601;
 
 /**
  * Manager for one or more web3.js connection(s).
  *
  * @remarks
- * This class is a singleton. Use the `getInstance()` method to get the instance.
+ * Instances are registered by name. Use the `getInstance()` method to get the instance for a name, or `create()` to build a standalone instance.
  *
  * @beta
  *
@@ -29,7 +57,8 @@ import { Logger } from './Logger';
  * ```
  */
 export class ConnectionManager {
-    private static _instance: ConnectionManager;
+    private static _instances: Map<string, ConnectionManager> = new Map();
+    private static _pendingInstances: Map<string, Promise<ConnectionManager>> = new Map();
     public _connection: Connection;
     public _fastestEndpoint: string;
     public _highestSlotEndpoint: string;
@@ -37,33 +66,93 @@ export class ConnectionManager {
     private _config: IConnectionManagerConstructor;
     private _logger: ILogger = new Logger('@soltoolkit/ConnectionManager');
     private _rpcSummary: IRPCSummary[] = [];
+    private _consecutiveFailures: { [endpoint: string]: number } = {};
+    private _unhealthyThreshold: number;
+    private _healthCheckTimer?: ReturnType<typeof setInterval>;
+    private _healthCheckInProgress = false;
+    private _latencyEwma: { [endpoint: string]: number } = {};
+    private _endpoints?: string[];
+    private _endpointConfigs: { [endpoint: string]: IEndpointConfig } = {};
+    private _rateLimiters: { [endpoint: string]: RateLimiter } = {};
+    private _circuitBreakers: { [endpoint: string]: CircuitBreaker } = {};
+    private _events = new EventEmitter();
+    private _roleConnections: { [role in EndpointRole]?: Connection } = {};
+    private _batchers: { [endpoint: string]: RpcBatcher } = {};
+    private _cache?: RpcCache;
 
     private constructor(
         {
+            name = DEFAULT_INSTANCE_NAME,
             network = 'mainnet-beta',
-            endpoint,
+            endpoint: endpointConfig,
             config,
             commitment = 'processed',
-            endpoints,
+            endpoints: endpointsConfig,
             mode = 'single',
             rpcSummary: endpointsSortedBySpeed,
             verbose = false,
-            transactionTimeout = 120_000
+            transactionTimeout = 120_000,
+            healthCheck,
+            failover,
+            endpointWeights,
+            latencyAlpha = 0.3,
+            rateLimit,
+            circuitBreaker,
+            maxSlotLag = 50,
+            metrics,
+            probe,
+            batch,
+            cache
         }: IConnectionManagerConstructor,
     ) {
         let rpcUrl: string | undefined;
 
+        this._config = {
+            name,
+            network,
+            endpoint: endpointConfig,
+            config,
+            commitment,
+            endpoints: endpointsConfig,
+            mode,
+            rpcSummary: endpointsSortedBySpeed,
+            verbose,
+            transactionTimeout,
+            healthCheck,
+            failover,
+            endpointWeights,
+            latencyAlpha,
+            rateLimit,
+            circuitBreaker,
+            maxSlotLag,
+            metrics,
+            probe,
+            batch,
+            cache
+        };
+        if (cache?.enabled) this._cache = RpcCache.create(cache);
+        // also used by runHealthCheck() when the loop is not enabled
+        this._unhealthyThreshold = healthCheck?.unhealthyThreshold ?? 3;
+
+        // register descriptors by url so per-endpoint options can be looked up from a connection's rpcEndpoint
+        const endpoint = endpointConfig !== undefined ? this.registerEndpoint(endpointConfig) : undefined;
+        const endpoints = endpointsConfig?.map((e) => this.registerEndpoint(e));
+        this._endpoints = endpoints;
+
         if (verbose)
             this._logger.debug(
                 `Initializing ConnectionManager with params: ${JSON.stringify(
                     {
                         network,
-                        endpoint,
-                        config,
+                        endpoint: endpoint !== undefined ? this.labelOf(endpoint) : undefined,
+                        config: config && { ...config, httpHeaders: config.httpHeaders ? '[redacted]' : undefined },
                         commitment,
-                        endpoints,
+                        endpoints: endpoints?.map((e) => this.labelOf(e)),
                         mode,
-                        endpointsSortedBySpeed
+                        endpointsSortedBySpeed: endpointsSortedBySpeed.map((e) => ({
+                            ...e,
+                            endpoint: this.labelOf(e.endpoint)
+                        }))
                     },
                     null,
                     2
@@ -71,7 +160,11 @@ export class ConnectionManager {
             );
 
         // filter out unreachable endpoints
-        const reachableEndpoints = endpointsSortedBySpeed.filter((endpoint) => endpoint.isReachable === true);
+        // filter out endpoints lagging too far behind the highest slot, stale nodes hand out blockhashes that expire early
+        const reachableEndpoints = ConnectionManager.filterBySlotLag(
+            endpointsSortedBySpeed.filter((endpoint) => endpoint.isReachable === true),
+            maxSlotLag
+        );
 
         // filter by speed, ascending (lowest first)
         const fastestEndpoint = reachableEndpoints.sort((a, b) => a.speedMs! - b.speedMs!)[0].endpoint;
@@ -175,6 +268,28 @@ export class ConnectionManager {
                     }
                 }
                 break;
+            // uses endpoints array only, selects item from array with probability proportional to its weight
+            // no fallback support if endpoints array is not provided
+            case 'weighted':
+                {
+                    if (endpoints && endpoints.length > 0) {
+                        rpcUrl = this.pickWeightedEndpoint(endpoints);
+                    } else {
+                        throw new Error('No endpoints provided with mode "weighted"');
+                    }
+                }
+                break;
+            // uses endpoints array only, starts with the fastest endpoint determined in the static initialization
+            // later selections use the moving average of observed latencies
+            case 'least-latency':
+                {
+                    if (endpoints && endpoints.length > 0 && fastestEndpoint) {
+                        rpcUrl = fastestEndpoint;
+                    } else {
+                        throw new Error('No endpoints provided with mode "least-latency"');
+                    }
+                }
+                break;
             default:
                 throw new Error('Invalid mode');
         }
@@ -183,80 +298,175 @@ export class ConnectionManager {
             throw new Error('No endpoint has been set');
         }
 
-        if (verbose) this._logger.debug(`Using endpoint: ${rpcUrl}`);
+        if (verbose) this._logger.debug(`Using endpoint: ${this.labelOf(rpcUrl)}`);
 
-        this._connection = new Connection(rpcUrl, {
+        this._connection = this.createConnection(rpcUrl, {
             ...config,
             commitment,
             confirmTransactionInitialTimeout: 120_000
         });
-        this._config = {
-            network,
-            endpoint,
-            config,
-            commitment,
-            endpoints,
-            mode,
-            rpcSummary: endpointsSortedBySpeed,
-            verbose,
-            transactionTimeout
-        };
         this._fastestEndpoint = fastestEndpoint || rpcUrl;
         this._highestSlotEndpoint = highestSlotEndpoint || rpcUrl;
         this._latestValidBlockHeightEndpoint = latestValidBlockHeightEndpoint || rpcUrl;
         this._rpcSummary = endpointsSortedBySpeed;
+
+        // seed the latency averages with the initial probe until real traffic is observed
+        for (const endpointSummary of reachableEndpoints) {
+            this.recordLatency(endpointSummary.endpoint, endpointSummary.speedMs!);
+        }
+
+        if (healthCheck?.enabled) {
+            this.startHealthCheck(healthCheck);
+        }
     }
 
     /**
-     * Builds and returns a singleton instance of the ConnectionManager class. This method runs a speed test on the provided endpoint/s on initialization.
+     * Builds and returns a named instance of the ConnectionManager class. This method runs a speed test on the provided endpoint/s on initialization.
+     *
+     * @remarks
+     * Instances are registered by `values.name`, defaulting to "default". Calling this again with the same name returns the existing
+     * instance and ignores the new values. Use a different name per cluster, or `create()` for an instance outside the registry.
+     *
+     * @param {string=} values.name - The name the instance is registered under. Defaults to "default".
      * @param {Cluster} values.network - The network to connect to.
      * @param {string=} values.endpoint - If using `mode` "single", will default to this endpoint. If not provided, will default to the default public RPC endpoint for the network.
      * @param {string[]=} values.endpoints - If any other mode, will default to this array of endpoints. If not provided, will default to `values.endpoint` or the default public RPC endpoint for the network.
      * @param {ConnectionConfig=} values.config - Additional configuration options for the web3.js connection.
      * @param {Commitment=} values.commitment - The commitment level. Defaults to "processed".
      * @param {Mode=} values.mode - The mode to use for selecting an endpoint.
-     * @returns {ConnectionManager} A singleton instance of the ConnectionManager class.
-     */
-    public static async getInstance(values: Omit<IConnectionManagerConstructor, 'rpcSummary'>): Promise<ConnectionManager> {
-        if (!ConnectionManager._instance) {
-            const endpoints = values.endpoints
-                ? values.endpoints
-                : values.endpoint !== undefined
-                ? [values.endpoint]
-                : [this.getDefaultEndpoint(values.network)];
-            const endpointsSummary = await ConnectionManager.getEndpointsSummary(
-                endpoints,
-                values.commitment || 'processed'
-            );
+     * @returns {ConnectionManager} The instance of the ConnectionManager class registered under `values.name`.
+     */
+    public static async getInstance(
+        values: Omit<IConnectionManagerConstructor, 'rpcSummary'>
+    ): Promise<ConnectionManager> {
+        const name = values.name || DEFAULT_INSTANCE_NAME;
+        const existing = ConnectionManager._instances.get(name);
+        if (existing) {
+            return existing;
+        }
+
+        // share the initialization between concurrent callers so only one instance is built per name
+        let pending = ConnectionManager._pendingInstances.get(name);
+        if (!pending) {
+            pending = ConnectionManager.create({ ...values, name });
+            ConnectionManager._pendingInstances.set(name, pending);
+        }
 
-            // if no endpoints are available, throw error
-            if (endpointsSummary.every((endpoint) => endpoint.isReachable === false)) {
-                throw new Error('No reachable endpoints');
+        try {
+            const instance = await pending;
+            // an initialization dropped by reset() is returned without registering its instance
+            if (ConnectionManager._pendingInstances.get(name) === pending) {
+                ConnectionManager._instances.set(name, instance);
+            }
+            return instance;
+        } finally {
+            if (ConnectionManager._pendingInstances.get(name) === pending) {
+                ConnectionManager._pendingInstances.delete(name);
             }
+        }
+    }
 
-            // check if any endpoints are available
-            const endpointsSortedBySpeed = endpointsSummary
-                .filter((endpoint) => endpoint.isReachable === true)    
-                .sort((a, b) => a.speedMs! - b.speedMs!);
-            ConnectionManager._instance = new ConnectionManager({
-                ...values,
-                rpcSummary: endpointsSortedBySpeed
-            });
+    /**
+     * Builds and returns a standalone instance of the ConnectionManager class that is not added to the registry used by `getInstance()`.
+     * This method runs a speed test on the provided endpoint/s on initialization.
+     * @param values - The same values accepted by `getInstance()`.
+     * @returns {ConnectionManager} A new instance of the ConnectionManager class.
+     */
+    public static async create(values: Omit<IConnectionManagerConstructor, 'rpcSummary'>): Promise<ConnectionManager> {
+        const endpoints = values.endpoints
+            ? values.endpoints
+            : values.endpoint !== undefined
+            ? [values.endpoint]
+            : [this.getDefaultEndpoint(values.network)];
+        // modes ranking by slot need a probe method that returns it
+        const method = values.probe?.method ?? 'getLatestBlockhash';
+        if (
+            (values.mode === 'highest-slot' && (method === 'getHealth' || method === 'getVersion')) ||
+            (values.mode === 'latest-valid-block-height' && method !== 'getLatestBlockhash')
+        ) {
+            throw new Error(`Probe method "${method}" cannot be used with mode "${values.mode}"`);
+        }
+
+        const endpointsSummary = await ConnectionManager.getEndpointsSummary(
+            endpoints,
+            values.commitment || 'processed',
+            values.probe
+        );
+
+        // if no endpoints are available, throw error
+        if (endpointsSummary.every((endpoint) => endpoint.isReachable === false)) {
+            throw new Error('No reachable endpoints');
+        }
+
+        // check if any endpoints are available
+        const endpointsSortedBySpeed = endpointsSummary
+            .filter((endpoint) => endpoint.isReachable === true)
+            .sort((a, b) => a.speedMs! - b.speedMs!);
+        return new ConnectionManager({
+            ...values,
+            rpcSummary: endpointsSortedBySpeed
+        });
+    }
+
+    /**
+     * Returns a named instance of the ConnectionManager class. This method should only be used after initializing the instance with `getInstance()`.
+     * @param name - The name the instance was registered under. Defaults to "default".
+     * @returns {ConnectionManager} The instance of the ConnectionManager class.
+     */
+    public static getInstanceSync(name: string = DEFAULT_INSTANCE_NAME): ConnectionManager {
+        const instance = ConnectionManager._instances.get(name);
+        if (!instance) {
+            throw new Error(
+                name === DEFAULT_INSTANCE_NAME
+                    ? 'ConnectionManager has not been initialized'
+                    : `ConnectionManager "${name}" has not been initialized`
+            );
         }
 
-        return ConnectionManager._instance;
+        return instance;
+    }
+
+    /**
+     * Returns true if an instance has been registered under the given name.
+     * @param name - The name to check. Defaults to "default".
+     */
+    public static hasInstance(name: string = DEFAULT_INSTANCE_NAME): boolean {
+        return ConnectionManager._instances.has(name);
+    }
+
+    /**
+     * Disposes the instance registered under the given name and removes it from the registry, so the next `getInstance()` call builds a new one.
+     * A `getInstance()` call still initializing an instance under the name returns it without registering it.
+     * @param name - The name of the instance to reset. Defaults to "default".
+     */
+    public static reset(name: string = DEFAULT_INSTANCE_NAME): void {
+        ConnectionManager._pendingInstances.delete(name);
+        ConnectionManager._instances.get(name)?.dispose();
     }
 
     /**
-     * Builds and returns a singleton instance of the ConnectionManager class. This method should only be used after initializing the ConnectionManager with `getInstance()`.
-     * @returns {Connection} The web3.js connection.
+     * Disposes every registered instance and clears the registry.
      */
-    public static getInstanceSync(): ConnectionManager {
-        if (!ConnectionManager._instance) {
-            throw new Error('ConnectionManager has not been initialized');
+    public static resetAll(): void {
+        ConnectionManager._pendingInstances.clear();
+        for (const instance of Array.from(ConnectionManager._instances.values())) {
+            instance.dispose();
         }
+    }
 
-        return ConnectionManager._instance;
+    /**
+     * Stops background work started by this instance and removes it from the registry if it was registered with `getInstance()`.
+     * The instance should not be used after calling this method.
+     */
+    public dispose(): void {
+        this.stopHealthCheck();
+        this._events.removeAllListeners();
+        this._cache?.clear();
+        const name = this._config.name || DEFAULT_INSTANCE_NAME;
+        if (ConnectionManager._instances.get(name) === this) {
+            ConnectionManager._instances.delete(name);
+        }
+        if (this._config.verbose) this._logger.debug(`Disposed ConnectionManager "${name}"`);
     }
 
     /**
@@ -277,10 +487,7 @@ export class ConnectionManager {
         let conn: Connection = this._connection;
 
         if (airdrop) {
-            conn = new Connection(
-                ConnectionManager.getDefaultEndpoint(this._config.network),
-                this._config.config || this._config.commitment
-            );
+            conn = this.createConnection(ConnectionManager.getDefaultEndpoint(this._config.network));
         } else {
             switch (this._config.mode) {
                 case 'single':
@@ -289,53 +496,53 @@ export class ConnectionManager {
                     {
                         // handled in constructor, no need to reinitialize
                         // use async method to get new connection for `fastest` or `hightest-slot` mode
-                        conn = this._connection;
+                        // only moves away from the endpoint while its circuit breaker is open
+                        const rpcUrl = this.preferAvailable(this._connection.rpcEndpoint);
+                        if (this._connection.rpcEndpoint !== rpcUrl) {
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing connection to ${this.labelOf(rpcUrl)}`);
+                            conn = this.createConnection(rpcUrl);
+                        }
                     }
                     break;
                 case 'highest-slot':
                     {
-                        if (this._connection.rpcEndpoint !== this._highestSlotEndpoint) {
-                            if (this._config.verbose) this._logger.debug(`Changing endpoint to ${this._highestSlotEndpoint}`);
-                            conn = new Connection(
-                                this._highestSlotEndpoint,
-                                this._config.config || this._config.commitment
-                            );
+                        const highestSlotEndpoint = this.preferAvailable(this._highestSlotEndpoint);
+                        if (this._connection.rpcEndpoint !== highestSlotEndpoint) {
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing endpoint to ${this.labelOf(highestSlotEndpoint)}`);
+                            conn = this.createConnection(highestSlotEndpoint);
                         }
                     }
                     break;
                 case 'fastest': {
                     {
-                        if (this._connection.rpcEndpoint !== this._fastestEndpoint) {
-                            if (this._config.verbose) this._logger.debug(`Changing connection to ${this._fastestEndpoint}`);
-                            conn = new Connection(
-                                this._fastestEndpoint,
-                                this._config.config || this._config.commitment
-                            );
+                        const fastestEndpoint = this.preferAvailable(this._fastestEndpoint);
+                        if (this._connection.rpcEndpoint !== fastestEndpoint) {
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing connection to ${this.labelOf(fastestEndpoint)}`);
+                            conn = this.createConnection(fastestEndpoint);
                         }
                     }
                     break;
                 }
                 case 'round-robin':
                     {
-                        const currentIndex = this._config.endpoints?.indexOf(this._connection.rpcEndpoint);
+                        const currentIndex = this._endpoints?.indexOf(this._connection.rpcEndpoint);
                         if (currentIndex === -1) {
                             if (
                                 this._connection.rpcEndpoint ===
                                 ConnectionManager.getDefaultEndpoint(this._config.network)
                             ) {
-                                conn = new Connection(
-                                    this._config.endpoints![0],
-                                    this._config.config || this._config.commitment
-                                );
+                                conn = this.createConnection(this._endpoints![0]);
                             } else {
                                 throw new Error('Current endpoint not found in endpoints array');
                             }
                         } else if (currentIndex !== undefined) {
                             // we can assume endpoints is non-null at this point
                             // constructor will throw if endpoints is null + mode is round-robin
-                            const nextIndex = currentIndex + 1 >= this._config.endpoints!.length ? 0 : currentIndex + 1;
-                            const rpcUrl = this._config.endpoints![nextIndex];
-                            conn = new Connection(rpcUrl, this._config.config || this._config.commitment);
+                            const rpcUrl = this.getNextAvailableEndpoint(currentIndex);
+                            conn = this.createConnection(rpcUrl);
                         } else {
                             throw new Error('Current index is undefined');
                         }
@@ -343,20 +550,35 @@ export class ConnectionManager {
                     break;
                 case 'latest-valid-block-height':
                 {
-                    if (this._connection.rpcEndpoint !== this._latestValidBlockHeightEndpoint) {
-                        if (this._config.verbose) this._logger.debug(`Changing connection to ${this._latestValidBlockHeightEndpoint}`);
-                        conn = new Connection(
-                            this._latestValidBlockHeightEndpoint,
-                            this._config.config || this._config.commitment
-                        );
+                    const latestValidBlockHeightEndpoint = this.preferAvailable(this._latestValidBlockHeightEndpoint);
+                    if (this._connection.rpcEndpoint !== latestValidBlockHeightEndpoint) {
+                        if (this._config.verbose)
+                            this._logger.debug(
+                                `Changing connection to ${this.labelOf(latestValidBlockHeightEndpoint)}`
+                            );
+                        conn = this.createConnection(latestValidBlockHeightEndpoint);
                     }
                 }
                 break;
-                case 'random':
+                case 'weighted':
+                case 'least-latency':
                     {
                         const rpcUrl =
-                            this._config.endpoints![Math.floor(Math.random() * this._config.endpoints!.length)];
-                        conn = new Connection(rpcUrl, this._config.config || this._config.commitment);
+                            this._config.mode === 'weighted'
+                                ? this.pickWeightedEndpoint()
+                                : this.getLeastLatencyEndpoint();
+                        if (this._connection.rpcEndpoint !== rpcUrl) {
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing connection to ${this.labelOf(rpcUrl)}`);
+                            conn = this.createConnection(rpcUrl);
+                        }
+                    }
+                    break;
+                case 'random':
+                    {
+                        const availableEndpoints = this.getAvailableEndpoints();
+                        const rpcUrl = availableEndpoints[Math.floor(Math.random() * availableEndpoints.length)];
+                        conn = this.createConnection(rpcUrl);
                     }
                     break;
                 default:
@@ -366,8 +588,8 @@ export class ConnectionManager {
             }
         }
 
-        if (this._config.verbose) this._logger.debug(`Using endpoint: ${conn.rpcEndpoint}`);
-        this._connection = conn;
+        if (this._config.verbose) this._logger.debug(`Using endpoint: ${this.labelOf(conn.rpcEndpoint)}`);
+        this.setConnection(conn, airdrop ? 'airdrop' : 'mode');
         return conn;
     }
 
@@ -392,20 +614,26 @@ export class ConnectionManager {
         let conn: Connection = this._connection;
 
         if (airdrop) {
-            conn = new Connection(
-                ConnectionManager.getDefaultEndpoint(this._config.network),
-                this._config.config || this._config.commitment
-            );
+            conn = this.createConnection(ConnectionManager.getDefaultEndpoint(this._config.network));
         } else {
             switch (this._config.mode) {
                 case 'single':
                 case 'first':
                 case 'last':
-                    // handled in constructor, no need to reinitialize
-                    conn = this._connection;
+                    {
+                        // handled in constructor, no need to reinitialize
+                        // only moves away from the endpoint while its circuit breaker is open
+                        const rpcUrl = this.preferAvailable(this._connection.rpcEndpoint);
+                        if (this._connection.rpcEndpoint !== rpcUrl) {
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing connection to ${this.labelOf(rpcUrl)}`);
+                            conn = this.createConnection(rpcUrl);
+                        }
+                    }
                     break;
                 case 'highest-slot':
                     {
+                        this.assertAnyCircuitClosed();
                         const endpointsSummary = await this.getEndpointsSummary();
 
                         // throw error if all endpoints are unreachable
@@ -413,20 +641,22 @@ export class ConnectionManager {
                             throw new Error('All endpoints unreachable');
                         }
 
-                        // filter out unreachable endpoints
-                        let reachableEndpoints = endpointsSummary
-                            .filter((endpoint) => endpoint.isReachable === true)
-                            .sort((a, b) => a.currentSlot! - b.currentSlot!);
+                        // filter out unreachable endpoints and endpoints whose circuit breaker is open
+                        let reachableEndpoints = this.filterSelectable(endpointsSummary).sort(
+                            (a, b) => b.currentSlot! - a.currentSlot!
+                        );
 
                         const highestSlotEndpoint = reachableEndpoints[0].endpoint;
                         if (this._connection.rpcEndpoint !== highestSlotEndpoint) {
-                            if (this._config.verbose) this._logger.debug(`Changing endpoint to ${highestSlotEndpoint}`);
-                            conn = new Connection(highestSlotEndpoint, this._config.config || this._config.commitment);
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing endpoint to ${this.labelOf(highestSlotEndpoint)}`);
+                            conn = this.createConnection(highestSlotEndpoint);
                         }
                     }
                     break;
                 case 'fastest': {
                     {
+                        this.assertAnyCircuitClosed();
                         const endpointsSummary = await this.getEndpointsSummary();
 
                         // throw error if all endpoints are unreachable
@@ -434,70 +664,84 @@ export class ConnectionManager {
                             throw new Error('All endpoints unreachable');
                         }
 
-                        // filter out unreachable endpoints
-                        let reachableEndpoints = endpointsSummary
-                            .filter((endpoint) => endpoint.isReachable === true)
-                            .sort((a, b) => a.speedMs! - b.speedMs!);
+                        // filter out unreachable endpoints and endpoints whose circuit breaker is open
+                        let reachableEndpoints = this.filterSelectable(endpointsSummary).sort(
+                            (a, b) => a.speedMs! - b.speedMs!
+                        );
 
                         const fastestEndpoint = reachableEndpoints[0].endpoint;
                         if (this._connection.rpcEndpoint !== fastestEndpoint) {
-                            if (this._config.verbose) this._logger.debug(`Changing connection to ${fastestEndpoint}`);
-                            conn = new Connection(fastestEndpoint, this._config.config || this._config.commitment);
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing connection to ${this.labelOf(fastestEndpoint)}`);
+                            conn = this.createConnection(fastestEndpoint);
                         }
                     }
                     break;
                 }
                 case 'round-robin':
                     {
-                        const currentIndex = this._config.endpoints?.indexOf(this._connection.rpcEndpoint);
+                        const currentIndex = this._endpoints?.indexOf(this._connection.rpcEndpoint);
                         if (currentIndex === -1) {
                             if (
                                 this._connection.rpcEndpoint ===
                                 ConnectionManager.getDefaultEndpoint(this._config.network)
                             ) {
-                                conn = new Connection(
-                                    this._config.endpoints![0],
-                                    this._config.config || this._config.commitment
-                                );
+                                conn = this.createConnection(this._endpoints![0]);
                             } else {
                                 throw new Error('Current endpoint not found in endpoints array');
                             }
                         } else if (currentIndex !== undefined) {
                             // we can assume endpoints is non-null at this point
                             // constructor will throw if endpoints is null + mode is round-robin
-                            const nextIndex = currentIndex + 1 >= this._config.endpoints!.length ? 0 : currentIndex + 1;
-                            const rpcUrl = this._config.endpoints![nextIndex];
-                            conn = new Connection(rpcUrl, this._config.config || this._config.commitment);
+                            const rpcUrl = this.getNextAvailableEndpoint(currentIndex);
+                            conn = this.createConnection(rpcUrl);
                         } else {
                             throw new Error('Current index is undefined');
                         }
                     }
                     break;
+                case 'weighted':
+                case 'least-latency':
+                    {
+                        const rpcUrl =
+                            this._config.mode === 'weighted'
+                                ? this.pickWeightedEndpoint()
+                                : this.getLeastLatencyEndpoint();
+                        if (this._connection.rpcEndpoint !== rpcUrl) {
+                            if (this._config.verbose)
+                                this._logger.debug(`Changing connection to ${this.labelOf(rpcUrl)}`);
+                            conn = this.createConnection(rpcUrl);
+                        }
+                    }
+                    break;
                 case 'random':
-                    const rpcUrl = this._config.endpoints![Math.floor(Math.random() * this._config.endpoints!.length)];
-                    conn = new Connection(rpcUrl, this._config.config || this._config.commitment);
+                    const availableEndpoints = this.getAvailableEndpoints();
+                    const rpcUrl = availableEndpoints[Math.floor(Math.random() * availableEndpoints.length)];
+                    conn = this.createConnection(rpcUrl);
                     break;
                 case 'latest-valid-block-height':
                     {
                         // get endpoint summary
+                        this.assertAnyCircuitClosed();
                         const endpointsSummary = await this.getEndpointsSummary();
                         // throw error if all endpoints are unreachable
                         if (endpointsSummary.every((endpoint) => endpoint.isReachable === false)) {
                             throw new Error('All endpoints unreachable');
                         }
-                        // filter unreachable endpoints and sort by last valid block height
-                        let reachableEndpoints = endpointsSummary
-                            .filter((endpoint) => endpoint.isReachable === true)
-                            .sort((a, b) => b.lastValidBlockHeight! - a.lastValidBlockHeight!);
+                        // filter unreachable endpoints and endpoints whose circuit breaker is open, sort by last valid block height
+                        let reachableEndpoints = this.filterSelectable(endpointsSummary).sort(
+                            (a, b) => b.lastValidBlockHeight! - a.lastValidBlockHeight!
+                        );
                         const latestValidBlockHeightEndpoint = reachableEndpoints[0].endpoint;
                         if (this._connection.rpcEndpoint !== latestValidBlockHeightEndpoint) {
-                            if (this._config.verbose) this._logger.debug(`Changing connection to ${latestValidBlockHeightEndpoint}`);
-                            conn = new Connection(
-                                latestValidBlockHeightEndpoint,
-                                this._config.config || this._config.commitment
-                            );
+                            if (this._config.verbose)
+                                this._logger.debug(
+                                    `Changing connection to ${this.labelOf(latestValidBlockHeightEndpoint)}`
+                                );
+                            conn = this.createConnection(latestValidBlockHeightEndpoint);
                         }
                     }
+                    break;
                 default:
                     if (this._config.verbose) this._logger.error('Invalid mode');
                     conn = this._connection;
@@ -505,150 +749,1528 @@ export class ConnectionManager {
             }
         }
 
-        if (this._config.verbose) this._logger.debug(`Using endpoint: ${conn.rpcEndpoint}`);
-        this._connection = conn;
+        if (this._config.verbose) this._logger.debug(`Using endpoint: ${this.labelOf(conn.rpcEndpoint)}`);
+        this.setConnection(conn, airdrop ? 'airdrop' : 'mode');
         return conn;
     }
 
     /**
-     * Returns a summary of speed and slot height for each endpoint.
-     * @returns {Promise<IRPCSummary[]>} An array of IRPCSummary objects.
+     * Returns a web3.js connection to an endpoint serving the given role.
+     *
+     * @remarks
+     * The connection for each role is kept until its endpoint becomes unavailable or `changeConn` is true, so subscriptions
+     * share one websocket. A new endpoint is picked in the order preferred by the configured `mode`.
+     * If no endpoint declares `roles`, this is the same as `connSync()`.
+     *
+     * @param role - The role the connection is used for.
+     * @param changeConn - If true, will pick the endpoint for the role again.
+     * @returns A web3.js connection.
      */
-    public async getEndpointsSummary(): Promise<IRPCSummary[]> {
-        const endpoints = this._config.endpoints || [this._connection.rpcEndpoint];
-        const summary = await ConnectionManager.getEndpointsSummary(endpoints);
-        this._rpcSummary = summary;
-        return summary;
+    public connForRole(role: EndpointRole, { changeConn = false }: { changeConn?: boolean } = {}): Connection {
+        const endpointConfigs = Object.values(this._endpointConfigs);
+        if (!endpointConfigs.some((endpointConfig) => endpointConfig.roles !== undefined)) {
+            return this.connSync({ changeConn, airdrop: role === 'airdrop' });
+        }
+
+        const endpoints = this.getRoleEndpoints(role);
+        if (endpoints.length === 0) {
+            if (role === 'airdrop') {
+                return this.createConnection(ConnectionManager.getDefaultEndpoint(this._config.network));
+            }
+            throw new Error(`No endpoint configured for role "${role}"`);
+        }
+
+        const roleConn = this._roleConnections[role];
+        if (
+            !changeConn &&
+            roleConn !== undefined &&
+            endpoints.includes(roleConn.rpcEndpoint) &&
+            this.isEndpointAvailable(roleConn.rpcEndpoint)
+        ) {
+            return roleConn;
+        }
+
+        const rpcUrl = this.getFailoverOrder([]).find((endpoint) => endpoints.includes(endpoint)) ?? endpoints[0];
+        if (this._config.verbose) this._logger.debug(`Using endpoint ${this.labelOf(rpcUrl)} for role "${role}"`);
+        const conn = rpcUrl === this._connection.rpcEndpoint ? this._connection : this.createConnection(rpcUrl);
+        this._roleConnections[role] = conn;
+        return conn;
     }
 
-    public getRpcSummary(): IRPCSummary[] {
-        return this._rpcSummary;
+    /**
+     * Returns a web3.js connection to an endpoint that supports the required capabilities, e.g. for DAS or archival reads.
+     *
+     * @remarks
+     * Capabilities are discovered when endpoints are probed with `probe.capabilities` enabled, see
+     * `IRPCSummary.capabilities`. The current endpoint is used if it qualifies, otherwise one is picked in the order
+     * preferred by the configured `mode`. The current connection of the ConnectionManager is not changed.
+     *
+     * @example
+     * ```typescript
+     * const conn = cm.connFor({ requires: ['archive'] });
+     * const tx = await conn.getTransaction(oldSignature, { maxSupportedTransactionVersion: 0 });
+     * ```
+     *
+     * @param requires - The capabilities the endpoint must support.
+     * @param role - If provided, the endpoint must also serve this role.
+     * @returns A web3.js connection.
+     * @throws If no endpoint supports every required capability.
+     */
+    public connFor({ requires = [], role }: { requires?: EndpointCapability[]; role?: EndpointRole }): Connection {
+        const endpoints =
+            role !== undefined ? this.getRoleEndpoints(role) : this._endpoints || [this._connection.rpcEndpoint];
+        const candidates = endpoints.filter((endpoint) =>
+            requires.every((capability) => this.getCapabilities(endpoint)?.includes(capability))
+        );
+        if (candidates.length === 0) {
+            throw new Error(`No endpoint supports ${requires.map((capability) => `"${capability}"`).join(', ')}`);
+        }
+
+        const current = this._connection.rpcEndpoint;
+        if (candidates.includes(current) && this.isEndpointAvailable(current)) {
+            return this._connection;
+        }
+        const rpcUrl =
+            this.getFailoverOrder([current]).find((endpoint) => candidates.includes(endpoint)) ?? candidates[0];
+        if (this._config.verbose)
+            this._logger.debug(`Using endpoint ${this.labelOf(rpcUrl)} for ${requires.join(', ') || 'any capability'}`);
+        return this.createConnection(rpcUrl);
     }
 
     /**
-     * A static version of `getEndpointsSummary()`. Returns a summary of speed and slot height for each endpoint.
-     * @param endpoints - An array of endpoints to test.
-     * @param commitment - The commitment level.
-     * @returns {Promise<IRPCSummary[]>} An array of IRPCSummary objects.
+     * Returns the capabilities discovered for the endpoint, or undefined if they have not been discovered yet.
+     * @param endpoint - The endpoint url.
      */
-    public static async getEndpointsSummary(endpoints: string[], commitment?: Commitment): Promise<IRPCSummary[]> {
-        // handle if endpoints is empty
-        if (endpoints.length === 0) {
-            throw new Error('Endpoints array is empty');
+    public getCapabilities(endpoint: string): EndpointCapability[] | undefined {
+        return this._rpcSummary.find((summary) => summary.endpoint === endpoint)?.capabilities;
+    }
+
+    /**
+     * Returns the endpoints serving the role. Endpoints without roles serve every role except airdrops.
+     */
+    private getRoleEndpoints(role: EndpointRole): string[] {
+        const endpointConfigs = Object.values(this._endpointConfigs);
+        if (!endpointConfigs.some((endpointConfig) => endpointConfig.roles !== undefined)) {
+            return endpointConfigs.map((endpointConfig) => endpointConfig.url);
         }
+        return endpointConfigs
+            .filter((endpointConfig) =>
+                endpointConfig.roles === undefined ? role !== 'airdrop' : endpointConfig.roles.includes(role)
+            )
+            .map((endpointConfig) => endpointConfig.url);
+    }
 
-        // no handling if endpoint is unavailable
-        const results = await Promise.all(
-            endpoints.map(async (endpoint) => {
-                try {
-                    const conn = new Connection(endpoint);
-                    const start = Date.now();
-                    const { context, value } = await conn.getLatestBlockhashAndContext(commitment);
-                    const end = Date.now();
-                    const speedMs = end - start;
-                    return {
-                        endpoint,
-                        speedMs,
-                        currentSlot: context.slot,
-                        isReachable: true,
-                        lastValidBlockHeight: value.lastValidBlockHeight
-                    } as IRPCSummary;
-                } catch {
-                    return {
-                        endpoint,
-                        speedMs: undefined,
-                        currentSlot: undefined,
-                        isReachable: false,
-                        lastValidBlockHeight: undefined
-                    } as IRPCSummary;
-                }
-            })
-        );
+    /**
+     * Returns a web3.js connection for RPC reads. See `connForRole()`.
+     * @param changeConn - If true, will pick the endpoint for reads again.
+     */
+    public readConn({ changeConn = false }: { changeConn?: boolean } = {}): Connection {
+        return this.connForRole('read', { changeConn });
+    }
 
-        return results;
+    /**
+     * Returns a web3.js connection for sending transactions. See `connForRole()`.
+     * @param changeConn - If true, will pick the endpoint for sends again.
+     */
+    public sendConn({ changeConn = false }: { changeConn?: boolean } = {}): Connection {
+        return this.connForRole('send', { changeConn });
     }
 
     /**
-     * Returns the fastest endpoint url, speed and slot height.
-     * @param endpoints - An array of endpoints to test.
-     * @param commitment - The commitment level.
-     * @returns {Promise<IRPCSummary>} An IRPCSummary object.
+     * Returns a web3.js connection for websocket subscriptions. See `connForRole()`.
+     * @param changeConn - If true, will pick the endpoint for subscriptions again.
      */
-    public static async getFastestEndpoint(endpoints: string[], commitment?: Commitment): Promise<IRPCSummary> {
-        let summary = await ConnectionManager.getEndpointsSummary(endpoints, commitment);
+    public subscribeConn({ changeConn = false }: { changeConn?: boolean } = {}): Connection {
+        return this.connForRole('subscribe', { changeConn });
+    }
 
-        // if all endpoints are unreachable, throw error
-        if (summary.every((endpoint) => endpoint.isReachable === false)) {
-            throw new Error('No reachable endpoints');
-        }
+    /**
+     * Returns a `Connection`-compatible object that retries failed RPC calls on another endpoint.
+     *
+     * @remarks
+     * Each call is made on the current connection of the ConnectionManager. If the request times out, fails at the network
+     * level or returns a 429/5xx, the call is retried on the next endpoint chosen by the configured `mode`, and the ConnectionManager
+     * switches to that endpoint. Methods in `nonRetryableMethods` and methods that do not return a promise are never
+     * retried, and neither are errors another endpoint would return as well, such as an expired blockhash or a confirmation
+     * timeout. Subscriptions always use the endpoint that was current when this method was called.
+     *
+     * @param maxRetries - The maximum number of retries per call. Defaults to the `failover` config value, or 3.
+     * @param nonRetryableMethods - Connection methods that must never be retried. Defaults to the `failover` config value, or `DEFAULT_NON_RETRYABLE_METHODS`.
+     * @returns A proxied web3.js connection.
+     */
+    public failoverConn({
+        maxRetries = this._config.failover?.maxRetries ?? 3,
+        nonRetryableMethods = this._config.failover?.nonRetryableMethods ?? DEFAULT_NON_RETRYABLE_METHODS
+    }: IFailoverConfig = {}): Connection {
+        // subscriptions are tied to a websocket, so they always use the connection that was current on creation
+        const subscriptionConn = this._connection;
 
-        // filter out unreachable endpoints
-        let reachableEndpoints = summary
-            .filter((endpoint) => endpoint.isReachable === true)
-            .sort((a, b) => a.speedMs! - b.speedMs!);
+        return new Proxy(this._connection, {
+            get: (_target, property) => {
+                const conn = this._connection;
+                const value: unknown = Reflect.get(conn, property);
+                if (!ConnectionManager.isMethod(value) || typeof property !== 'string') {
+                    return value;
+                }
+                const method = property as keyof Connection;
+
+                if (/^on[A-Z]|^remove[A-Za-z]*Listener$/.test(method)) {
+                    return value.bind(subscriptionConn);
+                }
+
+                if (nonRetryableMethods.includes(method)) {
+                    return value.bind(conn);
+                }
 
-        return reachableEndpoints[0];
+                return (...args: unknown[]) => {
+                    const result: unknown = Reflect.apply(value, conn, args);
+                    // synchronous members are returned as they are, only rejected promises are retried
+                    return result instanceof Promise
+                        ? this.retryOnFailover(method, value, args, conn, result, maxRetries)
+                        : result;
+                };
+            }
+        });
     }
 
     /**
-     * Returns the default endpoint for the given network.
-     * @param network - The network to get the default endpoint for.
-     * @returns {string} The default endpoint.
+     * Waits for a call made through `failoverConn()`, calling the method again on the next endpoint while it fails with a retryable error.
      */
-    public static getDefaultEndpoint(network: string | undefined): string {
-        switch (network) {
-            case 'mainnet-beta':
-                return 'https://api.mainnet-beta.solana.com';
-            case 'testnet':
-                return 'https://api.testnet.solana.com';
-            case 'devnet':
-                return 'https://api.devnet.solana.com';
-            case 'localnet':
-                return 'http://localhost:8899';
-            default:
-                throw new Error(`Invalid network: ${network}`);
+    private async retryOnFailover(
+        method: keyof Connection,
+        fn: ConnectionMethod,
+        args: unknown[],
+        conn: Connection,
+        result: Promise<unknown>,
+        maxRetries: number
+    ): Promise<unknown> {
+        const triedEndpoints: string[] = [];
+        let currentConn = conn;
+        let pending: unknown = result;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await pending;
+            } catch (e) {
+                triedEndpoints.push(currentConn.rpcEndpoint);
+                const nextEndpoint = this.getFailoverOrder(triedEndpoints)[0];
+                if (attempt >= maxRetries || nextEndpoint === undefined || !isRetryableRpcError(e)) {
+                    throw e;
+                }
+                if (this._config.verbose)
+                    this._logger.debug(
+                        `${method} failed on ${this.labelOf(currentConn.rpcEndpoint)}, ` +
+                            `retrying on ${this.labelOf(nextEndpoint)}`
+                    );
+                currentConn = this.createConnection(nextEndpoint);
+                this.setConnection(currentConn, 'failover');
+                pending = Reflect.apply(fn, currentConn, args);
+            }
         }
     }
-}
 
-/**
- * The constructor for the ConnectionManager class.
- * @param {Cluster} values.network - The network to connect to.
- * @param {string=} values.endpoint - If using `mode` "single", will default to this endpoint. If not provided, will default to the default public RPC endpoint for the network.
- * @param {string[]=} values.endpoints - If any other mode, will default to this array of endpoints. If not provided, will default to `values.endpoint` or the default public RPC endpoint for the network.
- * @param {ConnectionConfig=} values.config - Additional configuration options for the web3.js connection.
- * @param {Commitment=} values.commitment - The commitment level. Defaults to "processed".
- * @param {Mode=} values.mode - The mode to use for selecting an endpoint. 
- * @param {IRPCSummary[]} values.rpcSummary - An array of IRPCSummary objects.
- * @param {boolean=} values.verbose - Whether to log initialization details.
- * @param {number=} values.transactionTimeout - The transaction timeout in milliseconds.
- */
-export interface IConnectionManagerConstructor {
-    network: Cluster;
-    endpoint?: string;
-    endpoints?: string[];
-    config?: ConnectionConfig;
-    commitment?: Commitment;
-    mode?: Mode;
-    rpcSummary: IRPCSummary[];
-    verbose?: boolean;
-    transactionTimeout?: number;
-}
+    /**
+     * Returns true if a property of a connection is a method.
+     */
+    private static isMethod(value: unknown): value is ConnectionMethod {
+        return typeof value === 'function';
+    }
 
-/**
- * An object representing a summary of speed and slot height for an endpoint.
- * @param {string} endpoint - The endpoint url.
- * @param {boolean} isReachable - Whether the endpoint is reachable.
- * @param {number=} speedMs - The speed of the endpoint in milliseconds.
- * @param {number=} currentSlot - The current slot height of the endpoint.
- * @param {string=} lastValidBlockHeight - The last valid block height of the endpoint.
- */
+    /**
+     * Sends the same read to several endpoints in parallel and returns the value agreed on by a quorum of them.
+     *
+     * @remarks
+     * Endpoints are picked in the order preferred by the configured `mode`, with available endpoints first.
+     * Results are compared by the `key` function. By default the JSON of the result is compared, ignoring the `context` of
+     * RPC responses since each endpoint answers at its own slot.
+     *
+     * @example
+     * ```typescript
+     * const { value: lamports, disagreed } = await cm.quorumRead((conn) => conn.getBalance(payer), { count: 3 });
+     * ```
+     *
+     * @param read - The read to send, called once with a connection to each endpoint.
+     * @param count - The number of endpoints to send the read to. Defaults to 3, or the number of endpoints if fewer are configured.
+     * @param quorum - The number of endpoints that must agree. Defaults to a majority of `count`.
+     * @param key - Returns the value results are compared by.
+     * @returns The agreed value, the endpoints that agreed and disagreed, and the endpoints whose read failed.
+     */
+    public async quorumRead<T>(
+        read: (connection: Connection) => Promise<T>,
+        {
+            count = Math.min(3, (this._endpoints || [this._connection.rpcEndpoint]).length),
+            quorum = Math.floor(count / 2) + 1,
+            key = ConnectionManager.quorumKey
+        }: IQuorumReadOptions<T> = {}
+    ): Promise<IQuorumResult<T>> {
+        const endpoints = this.getFailoverOrder([]).slice(0, count);
+        if (quorum > endpoints.length) {
+            throw new Error(`Quorum of ${quorum} cannot be reached with ${endpoints.length} endpoints`);
+        }
+
+        const results = await Promise.allSettled(endpoints.map((endpoint) => read(this.createConnection(endpoint))));
+
+        // group the endpoints by the key of the value they returned
+        const groups = new Map<string, { value: T; endpoints: string[] }>();
+        const failed: string[] = [];
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                failed.push(endpoints[i]);
+                return;
+            }
+            const resultKey = key(result.value);
+            const group = groups.get(resultKey) || { value: result.value, endpoints: [] };
+            group.endpoints.push(endpoints[i]);
+            groups.set(resultKey, group);
+        });
+
+        const agreed = [...groups.values()].sort((a, b) => b.endpoints.length - a.endpoints.length)[0];
+        if (agreed === undefined || agreed.endpoints.length < quorum) {
+            throw new Error(
+                `Quorum not reached: ${agreed?.endpoints.length ?? 0} of ${endpoints.length} endpoints agreed, ` +
+                    `${quorum} required (${failed.length} failed)`
+            );
+        }
+
+        const disagreed = endpoints.filter(
+            (endpoint) => !agreed.endpoints.includes(endpoint) && !failed.includes(endpoint)
+        );
+        if (disagreed.length > 0 && this._config.verbose)
+            this._logger.debug(`Quorum read disagreed on ${disagreed.map((e) => this.labelOf(e)).join(', ')}`);
+
+        return { value: agreed.value, agreed: agreed.endpoints, disagreed, failed };
+    }
+
+    /**
+     * Returns the JSON of a read result, leaving out the `context` of RPC responses and converting bigints to strings.
+     */
+    private static quorumKey(value: unknown): string {
+        const isRpcResponse = typeof value === 'object' && value !== null && 'context' in value && 'value' in value;
+        return JSON.stringify(isRpcResponse ? (value as { value: unknown }).value : value, (_key, v) =>
+            typeof v === 'bigint' ? v.toString() : v
+        );
+    }
+
+    /**
+     * Returns the endpoints to fall back to, in the order preferred by the configured `mode`, excluding the given endpoints.
+     * Available endpoints are always ordered before unavailable ones.
+     */
+    private getFailoverOrder(exclude: string[]): string[] {
+        const endpoints = (this._endpoints || [this._connection.rpcEndpoint]).filter(
+            (endpoint) => !exclude.includes(endpoint)
+        );
+        const summaryOf = (endpoint: string) => this._rpcSummary.find((summary) => summary.endpoint === endpoint);
+
+        let ordered: string[];
+        switch (this._config.mode) {
+            case 'fastest':
+                ordered = [...endpoints].sort(
+                    (a, b) => (summaryOf(a)?.speedMs ?? Infinity) - (summaryOf(b)?.speedMs ?? Infinity)
+                );
+                break;
+            case 'highest-slot':
+                ordered = [...endpoints].sort(
+                    (a, b) => (summaryOf(b)?.currentSlot ?? -1) - (summaryOf(a)?.currentSlot ?? -1)
+                );
+                break;
+            case 'latest-valid-block-height':
+                ordered = [...endpoints].sort(
+                    (a, b) => (summaryOf(b)?.lastValidBlockHeight ?? -1) - (summaryOf(a)?.lastValidBlockHeight ?? -1)
+                );
+                break;
+            case 'random':
+                ordered = [...endpoints].sort(() => Math.random() - 0.5);
+                break;
+            case 'weighted':
+                ordered = [...endpoints].sort((a, b) => this.getEndpointWeight(b) - this.getEndpointWeight(a));
+                break;
+            case 'least-latency':
+                ordered = [...endpoints].sort(
+                    (a, b) => (this._latencyEwma[a] ?? Infinity) - (this._latencyEwma[b] ?? Infinity)
+                );
+                break;
+            default: {
+                // continue through the endpoints array from the current endpoint
+                const allEndpoints = this._endpoints || [this._connection.rpcEndpoint];
+                const currentIndex = allEndpoints.indexOf(this._connection.rpcEndpoint);
+                ordered = [...endpoints].sort((a, b) => {
+                    const distance = (endpoint: string) =>
+                        (allEndpoints.indexOf(endpoint) - currentIndex + allEndpoints.length) % allEndpoints.length;
+                    return distance(a) - distance(b);
+                });
+            }
+        }
+
+        return [
+            ...ordered.filter((endpoint) => this.isEndpointAvailable(endpoint)),
+            ...ordered.filter((endpoint) => !this.isEndpointAvailable(endpoint))
+        ];
+    }
+
+    /**
+     * Creates a web3.js connection to the given endpoint, applying the websocket url and headers from its descriptor.
+     * Requests made through it are timed to update the endpoint's latency average, and are batched or served from the
+     * cache if enabled.
+     * @param endpoint - The endpoint url.
+     * @param config - The connection config. Defaults to the `config` value, or the `commitment` value if no config was provided.
+     */
+    private createConnection(
+        endpoint: string,
+        config: ConnectionConfig = this._config.config || { commitment: this._config.commitment }
+    ): Connection {
+        const baseFetch: FetchFn =
+            config.fetch ||
+            (typeof globalThis.fetch === 'function' ? globalThis.fetch : (nodeFetch as unknown as FetchFn));
+
+        const endpointConfig = this._endpointConfigs[endpoint];
+        return new Connection(endpoint, {
+            ...config,
+            wsEndpoint: endpointConfig?.wsUrl || config.wsEndpoint,
+            httpHeaders: endpointConfig?.headers
+                ? { ...config.httpHeaders, ...endpointConfig.headers }
+                : config.httpHeaders,
+            fetch: async (input, init) => {
+                const parsed = parseJsonRpcRequest(init?.body);
+                const request = parsed !== undefined && !Array.isArray(parsed) ? parsed : undefined;
+                const batcher = this.getBatcher(endpoint, baseFetch);
+                const dispatch = () =>
+                    request !== undefined && batcher?.isBatchable(request)
+                        ? batcher.enqueue(input, init, request)
+                        : this.sendRequest(endpoint, baseFetch, input, init);
+                if (request !== undefined && this._cache?.isCacheable(request)) {
+                    return this._cache.fetch(endpoint, request, dispatch);
+                }
+                return dispatch();
+            }
+        });
+    }
+
+    /**
+     * Sends a request to the endpoint through its rate limiter, recording metrics, latency and circuit breaker results.
+     * @param endpoint - The endpoint url.
+     * @param baseFetch - The fetch function of the connection.
+     * @param input - The url passed to fetch.
+     * @param init - The options passed to fetch.
+     */
+    private async sendRequest(
+        endpoint: string,
+        baseFetch: FetchFn,
+        input: Parameters<FetchFn>[0],
+        init?: Parameters<FetchFn>[1]
+    ): Promise<Response> {
+        // open endpoints are skipped when selecting connections, while half-open only the trial request reaches the endpoint
+        const circuitBreaker = this.getCircuitBreaker(endpoint);
+        const isTrial = circuitBreaker.state === 'half-open';
+        if (isTrial && !circuitBreaker.tryRequest()) {
+            const label = this.labelOf(endpoint);
+            throw new RpcError(`Circuit breaker of ${label} is half-open, waiting for its trial request`, {
+                retryable: true
+            });
+        }
+        const rateLimiter = this.getRateLimiter(endpoint);
+        const metrics = this._config.metrics;
+        const labels: MetricLabels = metrics
+            ? { endpoint: this.labelOf(endpoint), method: ConnectionManager.getRpcMethod(init?.body) }
+            : {};
+        await rateLimiter.acquire();
+        try {
+            const start = Date.now();
+            metrics?.increment(METRIC_NAMES.rpcRequests, labels);
+            const response = await baseFetch(input, init);
+            metrics?.observe(METRIC_NAMES.rpcDuration, Date.now() - start, labels);
+            if (response.ok) {
+                this.recordLatency(endpoint, Date.now() - start);
+                this.recordCircuitResult(endpoint);
+            } else {
+                if (response.status >= 500) {
+                    this.recordCircuitResult(endpoint, `${response.status} ${response.statusText}`);
+                }
+                const type =
+                    response.status === 429 ? 'rate_limited' : response.status >= 500 ? 'server_error' : 'http_error';
+                metrics?.increment(METRIC_NAMES.rpcErrors, { ...labels, type });
+            }
+            if (response.status === 429) {
+                // hold every queued request for this endpoint, web3.js retries the rejected one itself
+                rateLimiter.pauseFor(parseRetryAfter(response.headers.get('Retry-After')) ?? 1_000);
+            }
+            return response;
+        } catch (e) {
+            this.recordCircuitResult(endpoint, e);
+            metrics?.increment(METRIC_NAMES.rpcErrors, { ...labels, type: 'network' });
+            throw e;
+        } finally {
+            rateLimiter.release();
+            // a response that recorded no result, e.g. a 429, lets the next request be the trial
+            if (isTrial) circuitBreaker.releaseTrial();
+        }
+    }
+
+    /**
+     * The metrics sink requests, endpoint switches and transaction outcomes are recorded to, if configured.
+     */
+    public get metrics(): IMetricsSink | undefined {
+        return this._config.metrics;
+    }
+
+    /**
+     * Sets the current connection. If the endpoint changed, counts the switch in the metrics sink and emits `endpointChanged`.
+     * @param conn - The new connection.
+     * @param reason - Why the connection is being changed.
+     */
+    private setConnection(conn: Connection, reason: EndpointChangeReason): void {
+        const previous = this._connection.rpcEndpoint;
+        this._connection = conn;
+        if (previous === conn.rpcEndpoint) return;
+
+        this._config.metrics?.increment(METRIC_NAMES.endpointSwitches, {
+            from: this.labelOf(previous),
+            to: this.labelOf(conn.rpcEndpoint)
+        });
+        this.emit('endpointChanged', {
+            previous,
+            current: conn.rpcEndpoint,
+            reason,
+            summary: this.getRpcSummary().find((summary) => summary.endpoint === conn.rpcEndpoint)
+        });
+    }
+
+    /**
+     * Records the result of a request in the endpoint's circuit breaker, emitting `endpointDown` when the breaker opens
+     * and `endpointRecovered` when it closes again.
+     * @param endpoint - The endpoint url.
+     * @param error - The error the request failed with. Records a success if not provided.
+     */
+    private recordCircuitResult(endpoint: string, error?: unknown): void {
+        const circuitBreaker = this.getCircuitBreaker(endpoint);
+        const previousState = circuitBreaker.state;
+        if (error === undefined) {
+            circuitBreaker.recordSuccess();
+        } else {
+            circuitBreaker.recordFailure(error);
+        }
+
+        const wasClosed = previousState === 'closed';
+        if (wasClosed && circuitBreaker.state === 'open') {
+            this.emit('endpointDown', { endpoint, reason: 'circuit-open', summary: this.getEndpointSummary(endpoint) });
+        } else if (!wasClosed && circuitBreaker.state === 'closed') {
+            this.emit('endpointRecovered', {
+                endpoint,
+                reason: 'circuit-closed',
+                summary: this.getEndpointSummary(endpoint)
+            });
+        }
+    }
+
+    /**
+     * Returns the latest summary of the endpoint, or undefined if it has not been probed.
+     */
+    private getEndpointSummary(endpoint: string): IRPCSummary | undefined {
+        return this.getRpcSummary().find((summary) => summary.endpoint === endpoint);
+    }
+
+    /**
+     * Subscribes to a ConnectionManager event.
+     *
+     * @example
+     * ```typescript
+     * cm.on('endpointChanged', ({ previous, current, reason }) => alert(`${previous} -> ${current} (${reason})`));
+     * ```
+     *
+     * @param event - The event name.
+     * @param listener - Called with the event payload every time the event is emitted.
+     * @returns The ConnectionManager instance.
+     */
+    public on<E extends keyof IConnectionManagerEvents>(
+        event: E,
+        listener: IConnectionManagerEvents[E]
+    ): ConnectionManager {
+        this._events.on(event, listener);
+        return this;
+    }
+
+    /**
+     * Subscribes to the next emission of a ConnectionManager event.
+     * @param event - The event name.
+     * @param listener - Called with the event payload the next time the event is emitted.
+     * @returns The ConnectionManager instance.
+     */
+    public once<E extends keyof IConnectionManagerEvents>(
+        event: E,
+        listener: IConnectionManagerEvents[E]
+    ): ConnectionManager {
+        this._events.once(event, listener);
+        return this;
+    }
+
+    /**
+     * Removes a listener added with `on()` or `once()`.
+     * @param event - The event name.
+     * @param listener - The listener to remove.
+     * @returns The ConnectionManager instance.
+     */
+    public off<E extends keyof IConnectionManagerEvents>(
+        event: E,
+        listener: IConnectionManagerEvents[E]
+    ): ConnectionManager {
+        this._events.off(event, listener);
+        return this;
+    }
+
+    /**
+     * Emits an event. Errors thrown by listeners are logged so they cannot break connection handling.
+     */
+    private emit<E extends keyof IConnectionManagerEvents>(
+        event: E,
+        ...args: Parameters<IConnectionManagerEvents[E]>
+    ): void {
+        for (const listener of this._events.rawListeners(event)) {
+            try {
+                listener(...args);
+            } catch (e) {
+                this._logger.warn(`Listener for "${event}" threw`, e);
+            }
+        }
+    }
+
+    /**
+     * Returns the JSON-RPC method of a request body, or "batch" for batched requests.
+     */
+    private static getRpcMethod(body: unknown): string {
+        const request = parseJsonRpcRequest(body);
+        return request === undefined ? 'unknown' : Array.isArray(request) ? 'batch' : request.method;
+    }
+
+    /**
+     * Returns the circuit breaker fields of the endpoint's summary.
+     */
+    private getCircuitSummary(endpoint: string): Pick<IRPCSummary, 'circuitState' | 'errorCount' | 'lastError'> {
+        const circuitBreaker = this.getCircuitBreaker(endpoint);
+        return {
+            circuitState: circuitBreaker.state,
+            errorCount: circuitBreaker.errorCount,
+            lastError: circuitBreaker.lastError
+        };
+    }
+
+    /**
+     * Returns the circuit breaker for the endpoint, creating it from the `circuitBreaker` config on first use.
+     */
+    private getCircuitBreaker(endpoint: string): CircuitBreaker {
+        if (this._circuitBreakers[endpoint] === undefined) {
+            this._circuitBreakers[endpoint] = CircuitBreaker.create(this._config.circuitBreaker);
+        }
+        return this._circuitBreakers[endpoint];
+    }
+
+    /**
+     * Returns the rate limiter for the endpoint, creating it from the endpoint descriptor and the `rateLimit` config on first use.
+     */
+    private getRateLimiter(endpoint: string): RateLimiter {
+        if (this._rateLimiters[endpoint] === undefined) {
+            const endpointConfig = this._endpointConfigs[endpoint];
+            this._rateLimiters[endpoint] = RateLimiter.create({
+                maxRps: endpointConfig?.maxRps ?? this._config.rateLimit?.maxRps,
+                maxConcurrent: endpointConfig?.maxConcurrent ?? this._config.rateLimit?.maxConcurrent
+            });
+        }
+        return this._rateLimiters[endpoint];
+    }
+
+    /**
+     * Returns the request batcher for the endpoint, or undefined if batching is disabled.
+     */
+    private getBatcher(endpoint: string, baseFetch: FetchFn): RpcBatcher | undefined {
+        if (!this._config.batch?.enabled) return undefined;
+        if (this._batchers[endpoint] === undefined) {
+            this._batchers[endpoint] = RpcBatcher.create(
+                (input, init) => this.sendRequest(endpoint, baseFetch, input, init),
+                this._config.batch
+            );
+        }
+        return this._batchers[endpoint];
+    }
+
+    /**
+     * Adds an observed latency to the exponentially weighted moving average for the endpoint.
+     */
+    private recordLatency(endpoint: string, latencyMs: number): void {
+        const alpha = this._config.latencyAlpha!;
+        const previous = this._latencyEwma[endpoint];
+        this._latencyEwma[endpoint] = previous === undefined ? latencyMs : alpha * latencyMs + (1 - alpha) * previous;
+    }
+
+    /**
+     * Returns the available endpoint with the lowest moving average latency. Endpoints without observations are tried last.
+     */
+    private getLeastLatencyEndpoint(): string {
+        return this.getAvailableEndpoints().reduce((best, endpoint) =>
+            (this._latencyEwma[endpoint] ?? Infinity) < (this._latencyEwma[best] ?? Infinity) ? endpoint : best
+        );
+    }
+
+    /**
+     * Returns the weight of the endpoint from its descriptor or `endpointWeights`. Defaults to 1.
+     */
+    private getEndpointWeight(endpoint: string): number {
+        return this._endpointConfigs[endpoint]?.weight ?? this._config.endpointWeights?.[endpoint] ?? 1;
+    }
+
+    /**
+     * Picks an endpoint with probability proportional to its weight. Falls back to the first endpoint if every weight is 0.
+     * @param endpoints - The endpoints to pick from. Defaults to the available endpoints.
+     */
+    private pickWeightedEndpoint(endpoints: string[] = this.getAvailableEndpoints()): string {
+        const weightOf = (endpoint: string) => Math.max(this.getEndpointWeight(endpoint), 0);
+        const totalWeight = endpoints.reduce((total, endpoint) => total + weightOf(endpoint), 0);
+        let remaining = Math.random() * totalWeight;
+        for (const endpoint of endpoints) {
+            remaining -= weightOf(endpoint);
+            if (remaining < 0) return endpoint;
+        }
+        return endpoints[0];
+    }
+
+    /**
+     * Stores the descriptor for an endpoint and returns its url.
+     */
+    private registerEndpoint(endpoint: string | IEndpointConfig): string {
+        const endpointConfig = ConnectionManager.toEndpointConfig(endpoint);
+        this._endpointConfigs[endpointConfig.url] = endpointConfig;
+        return endpointConfig.url;
+    }
+
+    /**
+     * Returns the descriptors of the configured endpoints, or of the current endpoint if no endpoints were provided.
+     */
+    private getEndpointConfigs(): IEndpointConfig[] {
+        return (this._endpoints || [this._connection.rpcEndpoint]).map(
+            (endpoint) => this._endpointConfigs[endpoint] || { url: endpoint }
+        );
+    }
+
+    /**
+     * Returns the label of the endpoint for use in logs. Falls back to the origin of the url so API keys in the path or query are not logged.
+     */
+    public labelOf(endpoint: string): string {
+        return this._endpointConfigs[endpoint]?.label || ConnectionManager.redactEndpoint(endpoint);
+    }
+
+    /**
+     * Returns a summary of speed and slot height for each endpoint.
+     * @returns {Promise<IRPCSummary[]>} An array of IRPCSummary objects.
+     */
+    public async getEndpointsSummary(): Promise<IRPCSummary[]> {
+        // capabilities rarely change, so they are only discovered until every endpoint has been checked once
+        const discoverCapabilities =
+            this._config.probe?.capabilities === true &&
+            this.getEndpointConfigs().some((endpointConfig) => this.getCapabilities(endpointConfig.url) === undefined);
+        const summary = await ConnectionManager.getEndpointsSummary(this.getEndpointConfigs(), undefined, {
+            ...this._config.probe,
+            capabilities: discoverCapabilities
+        });
+        for (const endpointSummary of summary) {
+            if (endpointSummary.capabilities === undefined) {
+                const previous = this._rpcSummary.find((previous) => previous.endpoint === endpointSummary.endpoint);
+                endpointSummary.capabilities = previous?.capabilities;
+                endpointSummary.firstAvailableBlock = previous?.firstAvailableBlock;
+            }
+        }
+
+        // track consecutive failures so a single dropped probe does not mark an endpoint unhealthy
+        const changes: { summary: IRPCSummary; down: boolean }[] = [];
+        for (const endpointSummary of summary) {
+            const previousFailures = this._consecutiveFailures[endpointSummary.endpoint] || 0;
+            const failures = endpointSummary.isReachable ? 0 : previousFailures + 1;
+            if (previousFailures < this._unhealthyThreshold && failures >= this._unhealthyThreshold) {
+                changes.push({ summary: endpointSummary, down: true });
+            } else if (previousFailures >= this._unhealthyThreshold && failures === 0) {
+                changes.push({ summary: endpointSummary, down: false });
+            }
+            this._consecutiveFailures[endpointSummary.endpoint] = failures;
+            endpointSummary.consecutiveFailures = failures;
+            endpointSummary.isHealthy = failures < this._unhealthyThreshold;
+            if (endpointSummary.isReachable) this.recordLatency(endpointSummary.endpoint, endpointSummary.speedMs!);
+            endpointSummary.averageLatencyMs = this._latencyEwma[endpointSummary.endpoint];
+            endpointSummary.queueDepth = this.getRateLimiter(endpointSummary.endpoint).queueDepth;
+            endpointSummary.inFlight = this.getRateLimiter(endpointSummary.endpoint).inFlight;
+            Object.assign(endpointSummary, this.getCircuitSummary(endpointSummary.endpoint));
+        }
+
+        this._rpcSummary = summary;
+
+        for (const { summary: endpointSummary, down } of changes) {
+            this.emit(down ? 'endpointDown' : 'endpointRecovered', {
+                endpoint: endpointSummary.endpoint,
+                reason: down ? 'unhealthy' : 'healthy',
+                summary: endpointSummary
+            });
+        }
+        this.emit('summaryUpdated', summary);
+        if (summary.every((endpoint) => !endpoint.isReachable)) {
+            this.emit('allEndpointsUnreachable', { summary, reason: 'unreachable' });
+        }
+        return summary;
+    }
+
+    /**
+     * Returns the summary generated by the last probe of the endpoints. Kept current by the health check loop when it is running.
+     * @returns {IRPCSummary[]} An array of IRPCSummary objects.
+     */
+    public getRpcSummary(): IRPCSummary[] {
+        return this._rpcSummary.map((endpointSummary) => ({
+            ...endpointSummary,
+            averageLatencyMs: this._latencyEwma[endpointSummary.endpoint],
+            queueDepth: this.getRateLimiter(endpointSummary.endpoint).queueDepth,
+            inFlight: this.getRateLimiter(endpointSummary.endpoint).inFlight,
+            ...this.getCircuitSummary(endpointSummary.endpoint)
+        }));
+    }
+
+    /**
+     * Starts a background loop that re-probes every endpoint on an interval. Endpoints failing `unhealthyThreshold`
+     * consecutive probes are marked unhealthy and the current connection is moved away from them.
+     *
+     * @remarks
+     * The timer is unref'd so it will not keep the process alive. Calling this while the loop is running restarts it with the new options.
+     *
+     * @param intervalMs - How often to probe the endpoints, in milliseconds. Defaults to 30,000.
+     * @param unhealthyThreshold - Number of consecutive failed probes before an endpoint is marked unhealthy. Defaults to the `healthCheck` config value, or 3.
+     * @returns The ConnectionManager instance.
+     */
+    public startHealthCheck({
+        intervalMs = 30_000,
+        unhealthyThreshold = this._unhealthyThreshold
+    }: IHealthCheckConfig = {}): ConnectionManager {
+        this.stopHealthCheck();
+        this._unhealthyThreshold = unhealthyThreshold;
+        this._healthCheckTimer = setInterval(async () => {
+            // skip this tick if the previous run has not finished yet
+            if (this._healthCheckInProgress) return;
+            try {
+                await this.runHealthCheck();
+            } catch (e) {
+                this._logger.warn('Health check failed', e);
+            }
+        }, intervalMs);
+        if (typeof this._healthCheckTimer.unref === 'function') this._healthCheckTimer.unref();
+        if (this._config.verbose) this._logger.debug(`Started health check every ${intervalMs}ms`);
+        return this;
+    }
+
+    /**
+     * Stops the background health check loop. Does nothing if the loop is not running.
+     * @returns The ConnectionManager instance.
+     */
+    public stopHealthCheck(): ConnectionManager {
+        if (this._healthCheckTimer !== undefined) {
+            clearInterval(this._healthCheckTimer);
+            this._healthCheckTimer = undefined;
+            if (this._config.verbose) this._logger.debug('Stopped health check');
+        }
+        return this;
+    }
+
+    /**
+     * Returns true if the background health check loop is running.
+     */
+    public isHealthCheckRunning(): boolean {
+        return this._healthCheckTimer !== undefined;
+    }
+
+    /**
+     * Runs a single health check pass: probes every endpoint, refreshes the fastest, highest slot and latest valid block height
+     * endpoints, and swaps the current connection if its endpoint has been marked unhealthy or its circuit breaker is open.
+     * @returns {Promise<IRPCSummary[]>} The refreshed array of IRPCSummary objects.
+     */
+    public async runHealthCheck(): Promise<IRPCSummary[]> {
+        this._healthCheckInProgress = true;
+        try {
+            const summary = await this.getEndpointsSummary();
+            const reachableEndpoints = ConnectionManager.filterBySlotLag(
+                summary.filter((endpoint) => endpoint.isReachable === true),
+                this._config.maxSlotLag!
+            );
+
+            if (reachableEndpoints.length > 0) {
+                this._fastestEndpoint = [...reachableEndpoints].sort((a, b) => a.speedMs! - b.speedMs!)[0].endpoint;
+                this._highestSlotEndpoint = [...reachableEndpoints].sort(
+                    (a, b) => b.currentSlot! - a.currentSlot!
+                )[0].endpoint;
+                this._latestValidBlockHeightEndpoint = [...reachableEndpoints].sort(
+                    (a, b) => b.lastValidBlockHeight! - a.lastValidBlockHeight!
+                )[0].endpoint;
+            }
+
+            if (!this.isEndpointAvailable(this._connection.rpcEndpoint)) {
+                const availableEndpoints = summary.filter(
+                    (endpoint) => endpoint.isReachable && this.isEndpointAvailable(endpoint.endpoint)
+                );
+                if (availableEndpoints.length === 0) {
+                    this._logger.warn('All endpoints are unavailable, keeping current connection');
+                    // probe failures across every endpoint are already reported by getEndpointsSummary()
+                    if (summary.some((endpoint) => endpoint.isReachable)) {
+                        this.emit('allEndpointsUnreachable', { summary, reason: 'unavailable' });
+                    }
+                } else {
+                    const rpcUrl = this.getFailoverEndpoint();
+                    if (this._config.verbose)
+                        this._logger.debug(
+                            `Endpoint ${this.labelOf(this._connection.rpcEndpoint)} is unavailable, ` +
+                                `changing connection to ${this.labelOf(rpcUrl)}`
+                        );
+                    this.setConnection(this.createConnection(rpcUrl), 'unavailable');
+                }
+            }
+
+            return summary;
+        } finally {
+            this._healthCheckInProgress = false;
+        }
+    }
+
+    /**
+     * Returns false if the endpoint has failed enough consecutive probes to be marked unhealthy, its circuit breaker is open,
+     * or it is lagging more than `maxSlotLag` slots behind.
+     */
+    private isEndpointAvailable(endpoint: string): boolean {
+        return (
+            (this._consecutiveFailures[endpoint] || 0) < this._unhealthyThreshold &&
+            this.getCircuitBreaker(endpoint).canRequest() &&
+            !this.isEndpointLagging(endpoint)
+        );
+    }
+
+    /**
+     * Returns true if the endpoint was more than `maxSlotLag` slots behind the highest slot in the last summary.
+     */
+    private isEndpointLagging(endpoint: string): boolean {
+        const slotLag = this._rpcSummary.find((summary) => summary.endpoint === endpoint)?.slotLag;
+        return slotLag !== undefined && slotLag > this._config.maxSlotLag!;
+    }
+
+    /**
+     * Returns the endpoint if it is available, otherwise the first available endpoint in the order preferred by the configured `mode`.
+     * Returns the endpoint itself if no endpoint is available.
+     */
+    private preferAvailable(endpoint: string): string {
+        if (this.isEndpointAvailable(endpoint)) {
+            return endpoint;
+        }
+        const fallback = this.getFailoverOrder([endpoint])[0];
+        return fallback !== undefined && this.isEndpointAvailable(fallback) ? fallback : endpoint;
+    }
+
+    /**
+     * Returns the reachable summaries whose endpoint is available. Falls back to all reachable summaries if none are available.
+     */
+    private filterSelectable(summary: IRPCSummary[]): IRPCSummary[] {
+        const reachableEndpoints = summary.filter((endpoint) => endpoint.isReachable === true);
+        const availableEndpoints = reachableEndpoints.filter((endpoint) => this.isEndpointAvailable(endpoint.endpoint));
+        return availableEndpoints.length > 0 ? availableEndpoints : reachableEndpoints;
+    }
+
+    /**
+     * Throws without probing if the circuit breaker of every endpoint is open.
+     */
+    private assertAnyCircuitClosed(): void {
+        const endpoints = this._endpoints || [this._connection.rpcEndpoint];
+        if (endpoints.every((endpoint) => !this.getCircuitBreaker(endpoint).canRequest())) {
+            this.emit('allEndpointsUnreachable', { summary: this.getRpcSummary(), reason: 'circuit-open' });
+            throw new Error('All endpoints unreachable: every circuit breaker is open');
+        }
+    }
+
+    /**
+     * Returns the configured endpoints that are available. Falls back to all endpoints if none are available.
+     * Endpoints with requests queued by their rate limiter are left out while another available endpoint has an empty queue.
+     */
+    private getAvailableEndpoints(): string[] {
+        const endpoints = this._endpoints || [this._connection.rpcEndpoint];
+        const availableEndpoints = endpoints.filter((endpoint) => this.isEndpointAvailable(endpoint));
+        if (availableEndpoints.length === 0) {
+            return endpoints;
+        }
+        const unqueuedEndpoints = availableEndpoints.filter(
+            (endpoint) => this.getRateLimiter(endpoint).queueDepth === 0
+        );
+        return unqueuedEndpoints.length > 0 ? unqueuedEndpoints : availableEndpoints;
+    }
+
+    /**
+     * Returns the next available endpoint after the given index in the endpoints array, wrapping around to the start.
+     */
+    private getNextAvailableEndpoint(currentIndex: number): string {
+        const endpoints = this._endpoints || [this._connection.rpcEndpoint];
+        for (let offset = 1; offset <= endpoints.length; offset++) {
+            const endpoint = endpoints[(currentIndex + offset) % endpoints.length];
+            if (this.isEndpointAvailable(endpoint)) return endpoint;
+        }
+        return endpoints[(currentIndex + 1) % endpoints.length];
+    }
+
+    /**
+     * Returns the endpoint to move to when the current endpoint is unavailable, based on the configured `mode`.
+     */
+    private getFailoverEndpoint(): string {
+        switch (this._config.mode) {
+            case 'fastest':
+                return this.preferAvailable(this._fastestEndpoint);
+            case 'highest-slot':
+                return this.preferAvailable(this._highestSlotEndpoint);
+            case 'latest-valid-block-height':
+                return this.preferAvailable(this._latestValidBlockHeightEndpoint);
+            case 'weighted':
+                return this.pickWeightedEndpoint();
+            case 'least-latency':
+                return this.getLeastLatencyEndpoint();
+            default: {
+                const endpoints = this._endpoints || [this._connection.rpcEndpoint];
+                return this.getNextAvailableEndpoint(endpoints.indexOf(this._connection.rpcEndpoint));
+            }
+        }
+    }
+
+    /**
+     * A static version of `getEndpointsSummary()`. Returns a summary of speed and slot height for each endpoint.
+     * @param endpoints - An array of endpoints to test.
+     * @param commitment - The commitment level.
+     * @param probe - How each endpoint is probed. Defaults to a single `getLatestBlockhash` sample with a 5 second timeout.
+     * @returns {Promise<IRPCSummary[]>} An array of IRPCSummary objects.
+     */
+    public static async getEndpointsSummary(
+        endpoints: (string | IEndpointConfig)[],
+        commitment?: Commitment,
+        {
+            method = 'getLatestBlockhash',
+            samples = 1,
+            timeoutMs = 5_000,
+            includeVersion = true,
+            capabilities = false
+        }: IProbeConfig = {}
+    ): Promise<IRPCSummary[]> {
+        // handle if endpoints is empty
+        if (endpoints.length === 0) {
+            throw new Error('Endpoints array is empty');
+        }
+
+        // endpoints are probed in parallel, samples of one endpoint run one after another so they do not compete
+        const results = await Promise.all(
+            endpoints.map(async (endpointOrConfig) => {
+                const endpointConfig = ConnectionManager.toEndpointConfig(endpointOrConfig);
+                const { url: endpoint, wsUrl, headers, label, tags } = endpointConfig;
+                const labelOrOrigin = label || ConnectionManager.redactEndpoint(endpoint);
+                const conn = new Connection(endpoint, { wsEndpoint: wsUrl, httpHeaders: headers });
+                const withTimeout = <T>(promise: Promise<T>) => Promise.race([promise, rejectAfter(timeoutMs, true)]);
+
+                const versionRequest =
+                    includeVersion && method !== 'getVersion'
+                        ? withTimeout(conn.getVersion()).catch(() => undefined)
+                        : undefined;
+                const durations: number[] = [];
+                let probeResult: IProbeResult | undefined;
+                for (let i = 0; i < Math.max(samples, 1); i++) {
+                    try {
+                        const start = Date.now();
+                        probeResult = await withTimeout(
+                            ConnectionManager.probe(conn, endpointConfig, method, commitment)
+                        );
+                        durations.push(Date.now() - start);
+                    } catch {
+                        // a failed sample is left out of the timings, the endpoint is unreachable if every sample fails
+                    }
+                }
+                const version = probeResult?.version ?? (await versionRequest);
+                const discovered =
+                    capabilities && probeResult !== undefined
+                        ? await ConnectionManager.discoverCapabilities(conn, endpointConfig, withTimeout)
+                        : undefined;
+
+                if (probeResult === undefined) {
+                    return {
+                        endpoint,
+                        label: labelOrOrigin,
+                        tags,
+                        speedMs: undefined,
+                        currentSlot: undefined,
+                        isReachable: false,
+                        lastValidBlockHeight: undefined
+                    } as IRPCSummary;
+                }
+                const medianMs = percentile(durations, 50);
+                return {
+                    endpoint,
+                    label: labelOrOrigin,
+                    tags,
+                    speedMs: medianMs,
+                    medianMs,
+                    p95Ms: percentile(durations, 95),
+                    samples: durations.length,
+                    currentSlot: probeResult.currentSlot,
+                    isReachable: true,
+                    lastValidBlockHeight: probeResult.lastValidBlockHeight,
+                    version: version?.['solana-core'],
+                    featureSet: version?.['feature-set'],
+                    ...discovered
+                } as IRPCSummary;
+            })
+        );
+
+        // measure each endpoint's lag relative to the highest slot observed in this probe
+        const highestSlot = Math.max(...results.map((result) => result.currentSlot ?? -1));
+        for (const result of results) {
+            if (result.currentSlot !== undefined) result.slotLag = highestSlot - result.currentSlot;
+        }
+
+        return results;
+    }
+
+    /**
+     * Makes a single probe request with the given method.
+     */
+    private static async probe(
+        conn: Connection,
+        endpointConfig: IEndpointConfig,
+        method: ProbeMethod,
+        commitment?: Commitment
+    ): Promise<IProbeResult> {
+        switch (method) {
+            case 'getSlot':
+                return { currentSlot: await conn.getSlot(commitment) };
+            case 'getHealth': {
+                // web3.js has no getHealth method, the node answers "ok" or an error
+                const response = await ConnectionManager.rpcRequest(endpointConfig, 'getHealth', []);
+                if (response.error) throw new Error(response.error.message);
+                return {};
+            }
+            case 'getVersion':
+                return { version: await conn.getVersion() };
+            default: {
+                const { context, value } = await conn.getLatestBlockhashAndContext(commitment);
+                return { currentSlot: context.slot, lastValidBlockHeight: value.lastValidBlockHeight };
+            }
+        }
+    }
+
+    /**
+     * Checks which optional RPC methods the endpoint supports. A method that fails for any reason other than
+     * "method not found" is treated as supported, since the error came from the method itself.
+     */
+    private static async discoverCapabilities(
+        conn: Connection,
+        endpointConfig: IEndpointConfig,
+        withTimeout: <T>(promise: Promise<T>) => Promise<T>
+    ): Promise<Pick<IRPCSummary, 'capabilities' | 'firstAvailableBlock'>> {
+        const [das, priorityFees, firstAvailableBlock] = await Promise.all([
+            // the system program owns no assets, so this is a cheap request on DAS endpoints
+            withTimeout(
+                ConnectionManager.rpcRequest(endpointConfig, 'getAssetsByOwner', {
+                    ownerAddress: '11111111111111111111111111111111',
+                    page: 1,
+                    limit: 1
+                })
+            ).then(
+                (response) => response.error?.code !== METHOD_NOT_FOUND,
+                () => false
+            ),
+            withTimeout(conn.getRecentPrioritizationFees()).then(
+                () => true,
+                (e) => e instanceof SolanaJSONRPCError && e.code !== METHOD_NOT_FOUND
+            ),
+            withTimeout(conn.getFirstAvailableBlock()).catch(() => undefined)
+        ]);
+
+        const capabilities: EndpointCapability[] = [];
+        if (das) capabilities.push('das');
+        if (firstAvailableBlock === 0) capabilities.push('archive');
+        if (priorityFees) capabilities.push('priority-fees');
+        return { capabilities, firstAvailableBlock };
+    }
+
+    /**
+     * Sends a JSON-RPC request for a method web3.js has no public method for.
+     * @returns The JSON-RPC response, which holds either the result or the error.
+     * @throws If the endpoint responds with an HTTP error.
+     */
+    private static async rpcRequest(
+        endpointConfig: IEndpointConfig,
+        method: string,
+        params: unknown
+    ): Promise<IJsonRpcResponse> {
+        const fetch: FetchFn =
+            typeof globalThis.fetch === 'function' ? globalThis.fetch : (nodeFetch as unknown as FetchFn);
+        const response = await fetch(endpointConfig.url, {
+            method: 'POST',
+            headers: { ...endpointConfig.headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+        });
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}: ${await response.text()}`);
+        }
+        return await response.json();
+    }
+
+    /**
+     * Returns the summaries whose slot lag is within `maxSlotLag`. Falls back to all summaries if every endpoint is lagging.
+     * @param summary - An array of IRPCSummary objects.
+     * @param maxSlotLag - The maximum number of slots an endpoint can be behind the highest observed slot.
+     * @returns {IRPCSummary[]} The summaries of endpoints that are not lagging.
+     */
+    public static filterBySlotLag(summary: IRPCSummary[], maxSlotLag: number): IRPCSummary[] {
+        const currentEndpoints = summary.filter((endpoint) => (endpoint.slotLag ?? 0) <= maxSlotLag);
+        return currentEndpoints.length > 0 ? currentEndpoints : summary;
+    }
+
+    /**
+     * Returns the fastest endpoint url, speed and slot height.
+     * @param endpoints - An array of endpoints to test.
+     * @param commitment - The commitment level.
+     * @param maxSlotLag - If provided, endpoints lagging more than this many slots behind the highest slot are not considered.
+     * @param probe - How each endpoint is probed.
+     * @returns {Promise<IRPCSummary>} An IRPCSummary object.
+     */
+    public static async getFastestEndpoint(
+        endpoints: (string | IEndpointConfig)[],
+        commitment?: Commitment,
+        maxSlotLag?: number,
+        probe?: IProbeConfig
+    ): Promise<IRPCSummary> {
+        let summary = await ConnectionManager.getEndpointsSummary(endpoints, commitment, probe);
+
+        // if all endpoints are unreachable, throw error
+        if (summary.every((endpoint) => endpoint.isReachable === false)) {
+            throw new Error('No reachable endpoints');
+        }
+
+        // filter out unreachable endpoints
+        let reachableEndpoints = summary.filter((endpoint) => endpoint.isReachable === true);
+        if (maxSlotLag !== undefined) {
+            reachableEndpoints = ConnectionManager.filterBySlotLag(reachableEndpoints, maxSlotLag);
+        }
+
+        return reachableEndpoints.sort((a, b) => a.speedMs! - b.speedMs!)[0];
+    }
+
+    /**
+     * Normalizes an endpoint url or descriptor into a descriptor.
+     * @param endpoint - The endpoint url or descriptor.
+     * @returns {IEndpointConfig} The endpoint descriptor.
+     */
+    public static toEndpointConfig(endpoint: string | IEndpointConfig): IEndpointConfig {
+        return typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+    }
+
+    /**
+     * Returns the origin of an endpoint url, dropping the path and query where providers commonly put API keys.
+     * @param endpoint - The endpoint url.
+     * @returns {string} The origin of the url, or the url itself if it cannot be parsed.
+     */
+    public static redactEndpoint(endpoint: string): string {
+        try {
+            return new URL(endpoint).origin;
+        } catch {
+            return endpoint;
+        }
+    }
+
+    /**
+     * Returns the default endpoint for the given network.
+     * @param network - The network to get the default endpoint for.
+     * @returns {string} The default endpoint.
+     */
+    public static getDefaultEndpoint(network: string | undefined): string {
+        switch (network) {
+            case 'mainnet-beta':
+                return 'https://api.mainnet-beta.solana.com';
+            case 'testnet':
+                return 'https://api.testnet.solana.com';
+            case 'devnet':
+                return 'https://api.devnet.solana.com';
+            case 'localnet':
+                return 'http://localhost:8899';
+            default:
+                throw new Error(`Invalid network: ${network}`);
+        }
+    }
+}
+
+/**
+ * The constructor for the ConnectionManager class.
+ * @param {string=} values.name - The name the instance is registered under by `getInstance()`. Defaults to "default".
+ * @param {Cluster} values.network - The network to connect to.
+ * @param {(string|IEndpointConfig)=} values.endpoint - If using `mode` "single", will default to this endpoint. If not provided, will default to the default public RPC endpoint for the network.
+ * @param {(string|IEndpointConfig)[]=} values.endpoints - If any other mode, will default to this array of endpoints. If not provided, will default to `values.endpoint` or the default public RPC endpoint for the network.
+ * @param {ConnectionConfig=} values.config - Additional configuration options for the web3.js connection.
+ * @param {Commitment=} values.commitment - The commitment level. Defaults to "processed".
+ * @param {Mode=} values.mode - The mode to use for selecting an endpoint. 
+ * @param {IRPCSummary[]} values.rpcSummary - An array of IRPCSummary objects.
+ * @param {boolean=} values.verbose - Whether to log initialization details.
+ * @param {number=} values.transactionTimeout - The transaction timeout in milliseconds.
+ * @param {IHealthCheckConfig=} values.healthCheck - Options for the background health check loop. Disabled by default.
+ * @param {IFailoverConfig=} values.failover - Default options for connections returned by `failoverConn()`.
+ * @param {Object=} values.endpointWeights - A map of endpoint url to weight, used by `mode` "weighted". A `weight` set on an endpoint descriptor takes precedence. Endpoints without a weight have a weight of 1.
+ * @param {number=} values.latencyAlpha - The smoothing factor (0-1) of the latency moving average used by `mode` "least-latency". Defaults to 0.3.
+ * @param {IRateLimitConfig=} values.rateLimit - Requests per second and concurrency limits applied to each endpoint without its own limits. Unlimited by default.
+ * @param {ICircuitBreakerConfig=} values.circuitBreaker - Options for the circuit breaker kept for each endpoint.
+ * @param {number=} values.maxSlotLag - Endpoints more than this many slots behind the highest observed slot are excluded from selection. Defaults to 50.
+ * @param {IMetricsSink=} values.metrics - Where to record request counts, errors, latencies and endpoint switches.
+ * @param {IProbeConfig=} values.probe - How endpoints are probed for their speed and slot height.
+ * @param {IBatchConfig=} values.batch - Options for combining reads made at the same time into batch requests. Disabled by default.
+ * @param {ICacheConfig=} values.cache - Options for briefly reusing the results of reads such as `getLatestBlockhash`. Disabled by default.
+ */
+export interface IConnectionManagerConstructor {
+    name?: string;
+    network: Cluster;
+    endpoint?: string | IEndpointConfig;
+    endpoints?: (string | IEndpointConfig)[];
+    config?: ConnectionConfig;
+    commitment?: Commitment;
+    mode?: Mode;
+    rpcSummary: IRPCSummary[];
+    verbose?: boolean;
+    transactionTimeout?: number;
+    healthCheck?: IHealthCheckConfig;
+    failover?: IFailoverConfig;
+    endpointWeights?: { [endpoint: string]: number };
+    latencyAlpha?: number;
+    rateLimit?: IRateLimitConfig;
+    circuitBreaker?: ICircuitBreakerConfig;
+    maxSlotLag?: number;
+    metrics?: IMetricsSink;
+    probe?: IProbeConfig;
+    batch?: IBatchConfig;
+    cache?: ICacheConfig;
+}
+
+/**
+ * A descriptor for an endpoint with its own connection options. Can be used anywhere an endpoint url is accepted.
+ * @param {string} url - The endpoint url.
+ * @param {string=} wsUrl - The websocket url used for subscriptions. Defaults to the one derived from `url` by web3.js.
+ * @param {Object=} headers - HTTP headers sent with every request to this endpoint, e.g. an API key header. Merged over `config.httpHeaders`.
+ * @param {number=} weight - The weight used by `mode` "weighted". Defaults to 1.
+ * @param {number=} maxRps - The maximum number of requests per second to send to this endpoint. Overrides `rateLimit.maxRps`.
+ * @param {number=} maxConcurrent - The maximum number of requests in flight to this endpoint. Overrides `rateLimit.maxConcurrent`.
+ * @param {string=} label - A name used in logs and summaries instead of the url, which may contain an API key.
+ * @param {string[]=} tags - Free-form tags describing the endpoint, e.g. "archive" or "das".
+ * @param {EndpointRole[]=} roles - The traffic this endpoint serves through the role accessors, e.g. `sendConn()`. Endpoints without roles serve reads, sends and subscriptions, but not airdrops.
+ */
+export interface IEndpointConfig {
+    url: string;
+    wsUrl?: string;
+    headers?: { [header: string]: string };
+    weight?: number;
+    maxRps?: number;
+    maxConcurrent?: number;
+    label?: string;
+    tags?: string[];
+    roles?: EndpointRole[];
+}
+
+/**
+ * The kinds of traffic an endpoint can be routed.
+ * @param {string} read - RPC reads, returned by `readConn()`.
+ * @param {string} send - Transaction sends, returned by `sendConn()` and used by the transaction wrappers.
+ * @param {string} subscribe - Websocket subscriptions, returned by `subscribeConn()`.
+ * @param {string} airdrop - Airdrops. If no endpoint has this role, the public endpoint of the network is used.
+ */
+export type EndpointRole = 'read' | 'send' | 'subscribe' | 'airdrop';
+
+/**
+ * Options for the background health check loop.
+ * @param {boolean=} enabled - Whether to start the loop when the ConnectionManager is initialized. Defaults to false.
+ * @param {number=} intervalMs - How often to probe the endpoints, in milliseconds. Defaults to 30,000.
+ * @param {number=} unhealthyThreshold - Number of consecutive failed probes before an endpoint is marked unhealthy. Defaults to 3.
+ */
+export interface IHealthCheckConfig {
+    enabled?: boolean;
+    intervalMs?: number;
+    unhealthyThreshold?: number;
+}
+
+/**
+ * Options for connections returned by `failoverConn()`.
+ * @param {number=} maxRetries - The maximum number of times a failed call is retried on another endpoint. Defaults to 3.
+ * @param {string[]=} nonRetryableMethods - Connection methods that must never be retried, e.g. non-idempotent sends. Defaults to `DEFAULT_NON_RETRYABLE_METHODS`.
+ */
+export interface IFailoverConfig {
+    maxRetries?: number;
+    nonRetryableMethods?: string[];
+}
+
+/**
+ * Options for `quorumRead()`.
+ * @param {number=} count - The number of endpoints to send the read to. Defaults to 3, or the number of endpoints if fewer are configured.
+ * @param {number=} quorum - The number of endpoints that must return the same value. Defaults to a majority of `count`.
+ * @param {function=} key - Returns the value results are compared by. Defaults to the JSON of the result without the RPC response `context`.
+ */
+export interface IQuorumReadOptions<T> {
+    count?: number;
+    quorum?: number;
+    key?: (value: T) => string;
+}
+
+/**
+ * The result of `quorumRead()`.
+ * @param {T} value - The value returned by the quorum.
+ * @param {string[]} agreed - The endpoints that returned the agreed value.
+ * @param {string[]} disagreed - The endpoints that returned a different value.
+ * @param {string[]} failed - The endpoints whose read threw an error.
+ */
+export interface IQuorumResult<T> {
+    value: T;
+    agreed: string[];
+    disagreed: string[];
+    failed: string[];
+}
+
+/**
+ * Events emitted by the ConnectionManager, subscribed to with `on()`.
+ * @param {function} endpointChanged - The current endpoint changed.
+ * @param {function} endpointDown - An endpoint failed `unhealthyThreshold` consecutive probes, or its circuit breaker opened.
+ * @param {function} endpointRecovered - An unhealthy endpoint passed a probe, or its circuit breaker closed.
+ * @param {function} summaryUpdated - The endpoints were probed.
+ * @param {function} allEndpointsUnreachable - No endpoint can currently be used.
+ */
+export interface IConnectionManagerEvents {
+    endpointChanged: (event: IEndpointChangedEvent) => void;
+    endpointDown: (event: IEndpointStatusEvent) => void;
+    endpointRecovered: (event: IEndpointStatusEvent) => void;
+    summaryUpdated: (summary: IRPCSummary[]) => void;
+    allEndpointsUnreachable: (event: IAllEndpointsUnreachableEvent) => void;
+}
+
+/**
+ * Why the current endpoint was changed.
+ * @param {string} mode - A new endpoint was selected by the configured `mode` in `conn()` or `connSync()`.
+ * @param {string} airdrop - The public endpoint was selected for an airdrop.
+ * @param {string} failover - A call made through `failoverConn()` failed and was retried on another endpoint.
+ * @param {string} unavailable - The health check found the current endpoint unavailable.
+ */
+export type EndpointChangeReason = 'mode' | 'airdrop' | 'failover' | 'unavailable';
+
+/**
+ * Payload of the `endpointChanged` event.
+ * @param {string} previous - The previous endpoint url.
+ * @param {string} current - The new endpoint url.
+ * @param {EndpointChangeReason} reason - Why the endpoint was changed.
+ * @param {IRPCSummary=} summary - The latest summary of the new endpoint, if it has been probed.
+ */
+export interface IEndpointChangedEvent {
+    previous: string;
+    current: string;
+    reason: EndpointChangeReason;
+    summary?: IRPCSummary;
+}
+
+/**
+ * Payload of the `endpointDown` and `endpointRecovered` events.
+ * @param {string} endpoint - The endpoint url.
+ * @param {string} reason - 'unhealthy' or 'healthy' for probe results, 'circuit-open' or 'circuit-closed' for circuit breaker changes.
+ * @param {IRPCSummary=} summary - The latest summary of the endpoint, if it has been probed.
+ */
+export interface IEndpointStatusEvent {
+    endpoint: string;
+    reason: 'unhealthy' | 'healthy' | 'circuit-open' | 'circuit-closed';
+    summary?: IRPCSummary;
+}
+
+/**
+ * Payload of the `allEndpointsUnreachable` event.
+ * @param {IRPCSummary[]} summary - The latest summary of every endpoint.
+ * @param {string} reason - 'unreachable' if every probe failed, 'unavailable' if every reachable endpoint is unhealthy, lagging or has an open circuit breaker, 'circuit-open' if every circuit breaker is open.
+ */
+export interface IAllEndpointsUnreachableEvent {
+    summary: IRPCSummary[];
+    reason: 'unreachable' | 'unavailable' | 'circuit-open';
+}
+
+/**
+ * The RPC method used to probe endpoints.
+ * @param {string} getLatestBlockhash - Measures the slot and last valid block height. Required by `mode` "latest-valid-block-height".
+ * @param {string} getSlot - Measures the slot.
+ * @param {string} getHealth - Only checks that the node is healthy.
+ * @param {string} getVersion - Only checks that the node responds.
+ */
+export type ProbeMethod = 'getLatestBlockhash' | 'getSlot' | 'getHealth' | 'getVersion';
+
+/**
+ * Options for probing endpoints.
+ * @param {ProbeMethod=} method - The RPC method used to probe endpoints. Defaults to "getLatestBlockhash".
+ * @param {number=} samples - The number of probes made to each endpoint. Speed is the median of the samples. Defaults to 1.
+ * @param {number=} timeoutMs - The time after which a probe counts as failed, in milliseconds. Defaults to 5,000.
+ * @param {boolean=} includeVersion - Whether to request the node version and feature set. Defaults to true.
+ * @param {boolean=} capabilities - Whether to discover which optional RPC methods each endpoint supports, which takes three more requests per endpoint. Defaults to false. A ConnectionManager only discovers them until every endpoint has been checked once.
+ */
+export interface IProbeConfig {
+    method?: ProbeMethod;
+    samples?: number;
+    timeoutMs?: number;
+    includeVersion?: boolean;
+    capabilities?: boolean;
+}
+
+/**
+ * Optional features an endpoint can support.
+ * @param {string} das - Digital Asset Standard methods, e.g. `getAssetsByOwner`.
+ * @param {string} archive - Full history: the first available block is the genesis block.
+ * @param {string} priority-fees - The `getRecentPrioritizationFees` method.
+ */
+export type EndpointCapability = 'das' | 'archive' | 'priority-fees';
+
+interface IProbeResult {
+    currentSlot?: number;
+    lastValidBlockHeight?: number;
+    version?: Version;
+}
+
+/**
+ * An object representing a summary of speed and slot height for an endpoint.
+ * @param {string} endpoint - The endpoint url.
+ * @param {string=} label - The label of the endpoint, or the origin of its url if it has no label.
+ * @param {string[]=} tags - The tags of the endpoint.
+ * @param {boolean} isReachable - Whether the endpoint is reachable.
+ * @param {number=} speedMs - The speed of the endpoint in milliseconds, the median of the probe samples.
+ * @param {number=} medianMs - The median duration of the probe samples, in milliseconds.
+ * @param {number=} p95Ms - The 95th percentile duration of the probe samples, in milliseconds.
+ * @param {number=} samples - The number of successful probe samples.
+ * @param {string=} version - The version of the RPC node software.
+ * @param {number=} featureSet - The feature set of the RPC node software.
+ * @param {EndpointCapability[]=} capabilities - The optional features the endpoint supports.
+ * @param {number=} firstAvailableBlock - The lowest slot the endpoint has a block for.
+ * @param {number=} currentSlot - The current slot height of the endpoint.
+ * @param {number=} slotLag - The number of slots the endpoint is behind the highest slot observed in the same probe.
+ * @param {string=} lastValidBlockHeight - The last valid block height of the endpoint.
+ * @param {boolean=} isHealthy - False once the endpoint has failed `unhealthyThreshold` consecutive probes.
+ * @param {number=} consecutiveFailures - The number of consecutive failed probes.
+ * @param {number=} averageLatencyMs - The exponentially weighted moving average of observed latencies, in milliseconds.
+ * @param {number=} queueDepth - The number of requests waiting on the endpoint's rate limiter.
+ * @param {number=} inFlight - The number of requests to the endpoint currently in flight.
+ * @param {CircuitState=} circuitState - The state of the endpoint's circuit breaker. Open endpoints are skipped by every mode.
+ * @param {number=} errorCount - The number of failed requests to the endpoint.
+ * @param {string=} lastError - The message of the last failed request to the endpoint.
+ */
 export interface IRPCSummary {
     endpoint: string;
+    label?: string;
+    tags?: string[];
     isReachable: boolean;
     speedMs?: number;
+    medianMs?: number;
+    p95Ms?: number;
+    samples?: number;
+    version?: string;
+    featureSet?: number;
+    capabilities?: EndpointCapability[];
+    firstAvailableBlock?: number;
     currentSlot?: number;
+    slotLag?: number;
     lastValidBlockHeight?: number;
+    isHealthy?: boolean;
+    consecutiveFailures?: number;
+    averageLatencyMs?: number;
+    queueDepth?: number;
+    inFlight?: number;
+    circuitState?: CircuitState;
+    errorCount?: number;
+    lastError?: string;
 }
 
 /**
@@ -661,5 +2283,22 @@ export interface IRPCSummary {
  * @param {string} highest-slot - Uses the highest slot endpoint determined in the static initialization. No fallback support.
  * @param {string} random - Uses endpoints array only, selects random item from array. No fallback support if endpoints array is not provided.
  * @param {string} latest-valid-block-height - Uses the endpoint with the latest valid block height.
+ * @param {string} weighted - Uses endpoints array only, selects random item from array with probability proportional to its weight in `endpointWeights`. No fallback support if endpoints array is not provided.
+ * @param {string} least-latency - Uses endpoints array only, selects the endpoint with the lowest moving average of latencies observed from real traffic. No fallback support if endpoints array is not provided.
+ */
+export type Mode =
+    | 'single'
+    | 'first'
+    | 'last'
+    | 'round-robin'
+    | 'random'
+    | 'fastest'
+    | 'highest-slot'
+    | 'latest-valid-block-height'
+    | 'weighted'
+    | 'least-latency';
+
+/**
+ * A method of a web3.js connection, called with the connection as `this`.
  */
-export type Mode = 'single' | 'first' | 'last' | 'round-robin' | 'random' | 'fastest' | 'highest-slot' | 'latest-valid-block-height';
\ No newline at end of file
+type ConnectionMethod = (this: Connection, ...args: unknown[]) => unknown;
@@ -0,0 +1,59 @@
+import { ConnectionConfig } from '@solana/web3.js';
+import nodeFetch, { ResponseInit as NodeFetchResponseInit } from 'node-fetch';
+
+/**
+ * The fetch function of a web3.js connection.
+ */
+export type FetchFn = NonNullable<ConnectionConfig['fetch']>;
+
+/**
+ * A JSON-RPC 2.0 request, as sent by web3.js.
+ */
+export interface IJsonRpcRequest {
+    jsonrpc: '2.0';
+    id: string | number;
+    method: string;
+    params?: unknown[];
+}
+
+/**
+ * A JSON-RPC 2.0 response.
+ */
+export interface IJsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Parses the body of a request made by web3.js.
+ * @param body - The request body.
+ * @returns The request, an array for batch requests, or undefined if the body is not JSON-RPC.
+ */
+export function parseJsonRpcRequest(body: unknown): IJsonRpcRequest | IJsonRpcRequest[] | undefined {
+    if (typeof body !== 'string') return undefined;
+    try {
+        const request = JSON.parse(body);
+        return Array.isArray(request) || typeof request?.method === 'string' ? request : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Creates a fetch `Response` with the given body, using the global `Response` if there is one, or node-fetch's.
+ * @param body - The response text, or a value to serialize as JSON.
+ * @param init - The status and headers. Defaults to 200 OK with a JSON content type.
+ */
+export function createResponse(
+    body: unknown,
+    init: ResponseInit = {
+        headers: { 'Content-Type': 'application/json' }
+    }
+): Response {
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    return typeof globalThis.Response === 'function'
+        ? new Response(text, init)
+        : (new nodeFetch.Response(text, init as NodeFetchResponseInit) as unknown as Response);
+}
@@ -0,0 +1,314 @@
+import {
+    AddressLookupTableAccount,
+    AddressLookupTableProgram,
+    Commitment,
+    Connection,
+    PublicKey,
+    Signer,
+    TransactionInstruction
+} from '@solana/web3.js';
+import { ILogger } from '../interfaces/ILogger';
+import { IWallet } from '../interfaces/IWallet';
+import { ConnectionManager } from './ConnectionManager';
+import { Logger } from './Logger';
+import { TransactionBuilder } from './TransactionBuilder';
+import { TransactionWrapper } from './TransactionWrapper';
+import { sleep } from './utils';
+
+/**
+ * The number of addresses added per extend transaction by default. About 30 fit in a legacy transaction.
+ */
+export const DEFAULT_EXTEND_CHUNK_SIZE = 20;
+
+// the most addresses a lookup table can hold
+const MAX_TABLE_ADDRESSES = 256;
+
+// a deactivated table can be closed once its deactivation slot is no longer in the SlotHashes sysvar
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+
+/**
+ * Creates, extends, deactivates and closes address lookup tables, and fetches them for use in versioned transactions.
+ *
+ * @example
+ * ```typescript
+ * const alts = LookupTableManager.create({ connectionManager: cm, authority: sender.publicKey, signers: [sender] });
+ * const table = await alts.createTableWithAddresses({ addresses: recipients });
+ * const tx = TransactionBuilder.create()
+ *     .addIx(ixs)
+ *     .buildV0({ payer: sender.publicKey, recentBlockhash, lookupTables: [table] });
+ * ```
+ */
+export class LookupTableManager {
+    private _connectionManager: ConnectionManager;
+    private _authority: PublicKey;
+    private _payer: PublicKey;
+    private _wallet?: IWallet;
+    private _signers?: Signer[];
+    private _commitment: Commitment;
+    private _logger: ILogger = new Logger('@soltoolkit/LookupTableManager');
+
+    private constructor({
+        connectionManager,
+        authority,
+        payer = authority,
+        wallet,
+        signers,
+        commitment = 'confirmed'
+    }: ILookupTableManagerConstructor) {
+        if (!wallet && !signers) {
+            throw new Error('No wallet or signers provided');
+        }
+        this._connectionManager = connectionManager;
+        this._authority = authority;
+        this._payer = payer;
+        this._wallet = wallet;
+        this._signers = signers;
+        this._commitment = commitment;
+    }
+
+    public static create(values: ILookupTableManagerConstructor): LookupTableManager {
+        return new LookupTableManager(values);
+    }
+
+    /**
+     * Creates an empty lookup table owned by the authority.
+     * @returns The address of the new table and the signature of the transaction creating it.
+     */
+    public async createTable(): Promise<{ lookupTable: PublicKey; signature: string }> {
+        // the recent slot must still be in the SlotHashes sysvar when the transaction lands, a finalized slot always is
+        const recentSlot = await this._connectionManager.readConn().getSlot('finalized');
+        const [ix, lookupTable] = AddressLookupTableProgram.createLookupTable({
+            authority: this._authority,
+            payer: this._payer,
+            recentSlot
+        });
+        const signature = await this.send(ix);
+        this._logger.debug(`Created lookup table ${lookupTable.toBase58()}: ${signature}`);
+        return { lookupTable, signature };
+    }
+
+    /**
+     * Adds addresses to a lookup table, skipping those already in it. Each chunk is sent in its own transaction.
+     * @param lookupTable - The address of the table.
+     * @param addresses - The addresses to add. A table holds at most 256 addresses.
+     * @param chunkSize - The number of addresses added per transaction. Defaults to 20.
+     * @returns The signatures of the extend transactions.
+     * @throws If the table would hold more than 256 addresses. Nothing is sent in that case.
+     */
+    public async extendTable({
+        lookupTable,
+        addresses,
+        chunkSize = DEFAULT_EXTEND_CHUNK_SIZE
+    }: {
+        lookupTable: PublicKey;
+        addresses: PublicKey[];
+        chunkSize?: number;
+    }): Promise<string[]> {
+        // the table may have just been created or extended, which a lagging read endpoint may not have seen yet
+        const table = await this.getTable(lookupTable, this._connectionManager.sendConn());
+        const missing = LookupTableManager.newAddresses(table.state.addresses, addresses);
+        const size = table.state.addresses.length + missing.length;
+        if (size > MAX_TABLE_ADDRESSES) {
+            throw this._logger.makeError(
+                `Lookup table ${lookupTable.toBase58()} would hold ${size} addresses, at most ${MAX_TABLE_ADDRESSES} fit`
+            );
+        }
+
+        const signatures: string[] = [];
+        for (let i = 0; i < missing.length; i += chunkSize) {
+            const chunk = missing.slice(i, i + chunkSize);
+            const ix = AddressLookupTableProgram.extendLookupTable({
+                lookupTable,
+                authority: this._authority,
+                payer: this._payer,
+                addresses: chunk
+            });
+            signatures.push(await this.send(ix));
+            const extendedTo = table.state.addresses.length + i + chunk.length;
+            this._logger.debug(`Extended lookup table ${lookupTable.toBase58()} to ${extendedTo} addresses`);
+        }
+        return signatures;
+    }
+
+    /**
+     * Waits until the addresses last added to a lookup table can be used, which is the slot after they were added.
+     * The table and the slot are read from the endpoint transactions are sent to, which has seen the writes.
+     * @param lookupTable - The address of the table.
+     * @param timeoutMs - How long to wait, in milliseconds. Defaults to 30,000.
+     * @param pollIntervalMs - How often to check the current slot, in milliseconds. Defaults to 400.
+     * @returns The table.
+     */
+    public async waitForActivation({
+        lookupTable,
+        timeoutMs = 30_000,
+        pollIntervalMs = 400
+    }: {
+        lookupTable: PublicKey;
+        timeoutMs?: number;
+        pollIntervalMs?: number;
+    }): Promise<AddressLookupTableAccount> {
+        const connection = this._connectionManager.sendConn();
+        const table = await this.getTable(lookupTable, connection);
+        const deadline = Date.now() + timeoutMs;
+        while ((await connection.getSlot(this._commitment)) <= table.state.lastExtendedSlot) {
+            if (Date.now() > deadline) {
+                throw this._logger.makeError(`Lookup table ${lookupTable.toBase58()} did not activate in time`);
+            }
+            await sleep(pollIntervalMs);
+        }
+        return table;
+    }
+
+    /**
+     * Creates a lookup table holding the given addresses and waits until it can be used.
+     * @param addresses - The addresses to add, e.g. all recipients of a disperse.
+     * @param chunkSize - The number of addresses added per transaction. Defaults to 20.
+     * @returns The table.
+     * @throws If there are more than 256 distinct addresses. No table is created in that case.
+     */
+    public async createTableWithAddresses({
+        addresses,
+        chunkSize
+    }: {
+        addresses: PublicKey[];
+        chunkSize?: number;
+    }): Promise<AddressLookupTableAccount> {
+        const count = LookupTableManager.newAddresses([], addresses).length;
+        if (count > MAX_TABLE_ADDRESSES) {
+            throw this._logger.makeError(
+                `${count} addresses do not fit in a lookup table, at most ${MAX_TABLE_ADDRESSES} fit`
+            );
+        }
+        const { lookupTable } = await this.createTable();
+        await this.extendTable({ lookupTable, addresses, chunkSize });
+        return await this.waitForActivation({ lookupTable });
+    }
+
+    /**
+     * Deactivates a lookup table. It can be closed about 513 slots later.
+     * @param lookupTable - The address of the table.
+     * @returns The signature of the transaction.
+     */
+    public async deactivateTable(lookupTable: PublicKey): Promise<string> {
+        const ix = AddressLookupTableProgram.deactivateLookupTable({ lookupTable, authority: this._authority });
+        return await this.send(ix);
+    }
+
+    /**
+     * Closes a deactivated lookup table, returning its rent.
+     * @param lookupTable - The address of the table.
+     * @param recipient - Where to send the rent. Defaults to the payer.
+     * @returns The signature of the transaction.
+     */
+    public async closeTable({
+        lookupTable,
+        recipient
+    }: {
+        lookupTable: PublicKey;
+        recipient?: PublicKey;
+    }): Promise<string> {
+        const ix = AddressLookupTableProgram.closeLookupTable({
+            lookupTable,
+            authority: this._authority,
+            recipient: recipient || this._payer
+        });
+        return await this.send(ix);
+    }
+
+    /**
+     * Retires old lookup tables: active tables are deactivated, and deactivated tables past their cooldown are closed.
+     * Tables still cooling down are left for a later call.
+     * @param lookupTables - The addresses of the tables.
+     * @param recipient - Where to send the rent of closed tables. Defaults to the payer.
+     * @returns The tables deactivated and closed by this call.
+     */
+    public async retireTables({
+        lookupTables,
+        recipient
+    }: {
+        lookupTables: PublicKey[];
+        recipient?: PublicKey;
+    }): Promise<{ deactivated: PublicKey[]; closed: PublicKey[] }> {
+        const connection = this._connectionManager.readConn();
+        const slot = await connection.getSlot(this._commitment);
+        const deactivated: PublicKey[] = [];
+        const closed: PublicKey[] = [];
+
+        for (const lookupTable of lookupTables) {
+            const { value: table } = await connection.getAddressLookupTable(lookupTable);
+            if (table === null) {
+                this._logger.debug(`Lookup table ${lookupTable.toBase58()} is already closed`);
+            } else if (table.isActive()) {
+                await this.deactivateTable(lookupTable);
+                deactivated.push(lookupTable);
+            } else if (slot > Number(table.state.deactivationSlot) + DEACTIVATION_COOLDOWN_SLOTS) {
+                await this.closeTable({ lookupTable, recipient });
+                closed.push(lookupTable);
+            } else {
+                this._logger.debug(`Lookup table ${lookupTable.toBase58()} is still cooling down`);
+            }
+        }
+        return { deactivated, closed };
+    }
+
+    /**
+     * Fetches lookup tables for use in versioned transactions.
+     * @param lookupTables - The addresses of the tables.
+     * @returns The tables, in the order requested.
+     */
+    public async getTables(lookupTables: PublicKey[]): Promise<AddressLookupTableAccount[]> {
+        return await Promise.all(lookupTables.map((lookupTable) => this.getTable(lookupTable)));
+    }
+
+    private async getTable(
+        lookupTable: PublicKey,
+        connection: Connection = this._connectionManager.readConn()
+    ): Promise<AddressLookupTableAccount> {
+        const { value } = await connection.getAddressLookupTable(lookupTable, { commitment: this._commitment });
+        if (value === null) {
+            throw this._logger.makeError(`Lookup table ${lookupTable.toBase58()} not found`);
+        }
+        return value;
+    }
+
+    /**
+     * Returns the addresses not in the table yet, without duplicates, in the order given.
+     */
+    private static newAddresses(existing: PublicKey[], addresses: PublicKey[]): PublicKey[] {
+        const keys = new Set(existing.map((address) => address.toBase58()));
+        return addresses.filter((address) => {
+            const key = address.toBase58();
+            if (keys.has(key)) return false;
+            keys.add(key);
+            return true;
+        });
+    }
+
+    private async send(ix: TransactionInstruction): Promise<string> {
+        const wrapper = TransactionWrapper.create({
+            transaction: TransactionBuilder.create().addIx(ix).build(),
+            connectionManager: this._connectionManager
+        });
+        await wrapper.addBlockhashAndFeePayer(this._payer);
+        const [signed] = await wrapper.sign({ wallet: this._wallet, signers: this._signers });
+        return await wrapper.sendAndConfirm({ serialisedTx: signed.serialize(), commitment: this._commitment });
+    }
+}
+
+/**
+ * Options for a lookup table manager.
+ * @param {ConnectionManager} connectionManager - The connection manager used to read tables and send transactions.
+ * @param {PublicKey} authority - The authority of the tables, which must sign every transaction.
+ * @param {PublicKey=} payer - Pays for transactions and table rent. Defaults to the authority.
+ * @param {IWallet=} wallet - Signs transactions. Either a wallet or signers must be provided.
+ * @param {Signer[]=} signers - Signs transactions.
+ * @param {Commitment=} commitment - The commitment to confirm transactions and read tables at. Defaults to 'confirmed'.
+ */
+export interface ILookupTableManagerConstructor {
+    connectionManager: ConnectionManager;
+    authority: PublicKey;
+    payer?: PublicKey;
+    wallet?: IWallet;
+    signers?: Signer[];
+    commitment?: Commitment;
+}
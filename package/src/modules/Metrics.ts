@@ -0,0 +1,226 @@
+/**
+ * Names of the metrics recorded by the SDK.
+ */
+export const METRIC_NAMES = {
+    /** RPC requests made through a ConnectionManager connection, labelled by `endpoint` and `method`. */
+    rpcRequests: 'soltoolkit_rpc_requests_total',
+    /** Failed RPC requests, labelled by `endpoint`, `method` and `type` (`rate_limited`, `server_error`, `http_error` or `network`). */
+    rpcErrors: 'soltoolkit_rpc_errors_total',
+    /** Duration of RPC requests in milliseconds, labelled by `endpoint` and `method`. */
+    rpcDuration: 'soltoolkit_rpc_request_duration_ms',
+    /** Changes of the current endpoint of a ConnectionManager, labelled by `from` and `to`. */
+    endpointSwitches: 'soltoolkit_endpoint_switches_total',
+    /** Transactions sent by a TransactionWrapper, labelled by `outcome` (`sent` or `error`). */
+    transactionsSent: 'soltoolkit_transactions_sent_total',
+    /** Transaction confirmations awaited by a TransactionWrapper, labelled by `outcome` (`confirmed`, `failed`, `expired` or `error`). */
+    transactionsConfirmed: 'soltoolkit_transactions_confirmed_total',
+    /** Time taken to confirm transactions in milliseconds, labelled by `outcome`. */
+    confirmationDuration: 'soltoolkit_transaction_confirmation_duration_ms'
+};
+
+/**
+ * Default histogram buckets in milliseconds.
+ */
+export const DEFAULT_DURATION_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000, 30_000, 60_000];
+
+/**
+ * A metrics collector that keeps counters and histograms in memory. Use `toPrometheusText()` to export them.
+ *
+ * @example
+ * ```typescript
+ * const metrics = InMemoryMetrics.create();
+ * const cm = await ConnectionManager.getInstance({ network: 'mainnet-beta', endpoints, mode: 'fastest', metrics });
+ * // in a /metrics handler
+ * res.send(toPrometheusText(metrics));
+ * ```
+ */
+export class InMemoryMetrics implements IMetricsSink {
+    private _buckets: number[];
+    private _counters: Map<string, Map<string, ICounterSnapshot>> = new Map();
+    private _histograms: Map<string, Map<string, IHistogramSnapshot>> = new Map();
+
+    private constructor({ buckets = DEFAULT_DURATION_BUCKETS }: IInMemoryMetricsConfig) {
+        this._buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    public static create(values: IInMemoryMetricsConfig = {}): InMemoryMetrics {
+        return new InMemoryMetrics(values);
+    }
+
+    public increment(name: string, labels: MetricLabels = {}, value: number = 1): void {
+        const series = this.getSeries(this._counters, name);
+        const key = labelKey(labels);
+        const counter = series.get(key) || { name, labels: { ...labels }, value: 0 };
+        counter.value += value;
+        series.set(key, counter);
+    }
+
+    public observe(name: string, value: number, labels: MetricLabels = {}): void {
+        const series = this.getSeries(this._histograms, name);
+        const key = labelKey(labels);
+        const histogram = series.get(key) || {
+            name,
+            labels: { ...labels },
+            buckets: this._buckets.map((le) => ({ le, count: 0 })),
+            sum: 0,
+            count: 0
+        };
+        for (const bucket of histogram.buckets) {
+            if (value <= bucket.le) bucket.count++;
+        }
+        histogram.sum += value;
+        histogram.count++;
+        series.set(key, histogram);
+    }
+
+    /**
+     * Returns the value of a counter, or 0 if it has not been incremented.
+     * @param name - The metric name.
+     * @param labels - The labels of the series.
+     */
+    public getCounter(name: string, labels: MetricLabels = {}): number {
+        return this._counters.get(name)?.get(labelKey(labels))?.value ?? 0;
+    }
+
+    /**
+     * Returns a histogram series, or undefined if nothing has been observed.
+     * @param name - The metric name.
+     * @param labels - The labels of the series.
+     */
+    public getHistogram(name: string, labels: MetricLabels = {}): IHistogramSnapshot | undefined {
+        return this._histograms.get(name)?.get(labelKey(labels));
+    }
+
+    /**
+     * Returns every counter and histogram series recorded so far.
+     */
+    public snapshot(): IMetricsSnapshot {
+        return {
+            counters: ([] as ICounterSnapshot[]).concat(...[...this._counters.values()].map((s) => [...s.values()])),
+            histograms: ([] as IHistogramSnapshot[]).concat(
+                ...[...this._histograms.values()].map((s) => [...s.values()])
+            )
+        };
+    }
+
+    /**
+     * Clears all recorded metrics.
+     */
+    public reset(): void {
+        this._counters.clear();
+        this._histograms.clear();
+    }
+
+    private getSeries<T>(store: Map<string, Map<string, T>>, name: string): Map<string, T> {
+        if (!store.has(name)) store.set(name, new Map());
+        return store.get(name)!;
+    }
+}
+
+/**
+ * Formats the metrics of a collector in the Prometheus text exposition format.
+ * @param metrics - The collector, or a snapshot of it.
+ * @returns The metrics as text, served with the content type `text/plain; version=0.0.4`.
+ */
+export function toPrometheusText(metrics: InMemoryMetrics | IMetricsSnapshot): string {
+    const { counters, histograms } = metrics instanceof InMemoryMetrics ? metrics.snapshot() : metrics;
+    const lines: string[] = [];
+
+    const counterNames = [...new Set(counters.map((counter) => counter.name))];
+    for (const name of counterNames) {
+        lines.push(`# TYPE ${name} counter`);
+        for (const counter of counters.filter((c) => c.name === name)) {
+            lines.push(`${name}${formatLabels(counter.labels)} ${counter.value}`);
+        }
+    }
+
+    const histogramNames = [...new Set(histograms.map((histogram) => histogram.name))];
+    for (const name of histogramNames) {
+        lines.push(`# TYPE ${name} histogram`);
+        for (const histogram of histograms.filter((h) => h.name === name)) {
+            for (const bucket of histogram.buckets) {
+                const labels = formatLabels({ ...histogram.labels, le: String(bucket.le) });
+                lines.push(`${name}_bucket${labels} ${bucket.count}`);
+            }
+            lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+            lines.push(`${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+            lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+        }
+    }
+
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+function labelKey(labels: MetricLabels): string {
+    return Object.keys(labels)
+        .sort()
+        .map((label) => `${label}=${labels[label]}`)
+        .join(',');
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.keys(labels).map((label) => {
+        const value = labels[label].replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+        return `${label}="${value}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * A destination for the metrics recorded by the SDK, e.g. `InMemoryMetrics` or an adapter to another metrics library.
+ * @param increment - Adds to a counter, by 1 if no value is provided.
+ * @param observe - Records a value in a histogram.
+ */
+export interface IMetricsSink {
+    increment(name: string, labels?: MetricLabels, value?: number): void;
+    observe(name: string, value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * Labels identifying a series of a metric.
+ */
+export type MetricLabels = { [label: string]: string };
+
+/**
+ * Options for an in-memory metrics collector.
+ * @param {number[]=} buckets - Upper bounds of the histogram buckets. Defaults to `DEFAULT_DURATION_BUCKETS`.
+ */
+export interface IInMemoryMetricsConfig {
+    buckets?: number[];
+}
+
+/**
+ * A counter series.
+ * @param {string} name - The metric name.
+ * @param {MetricLabels} labels - The labels of the series.
+ * @param {number} value - The current value.
+ */
+export interface ICounterSnapshot {
+    name: string;
+    labels: MetricLabels;
+    value: number;
+}
+
+/**
+ * A histogram series.
+ * @param {string} name - The metric name.
+ * @param {MetricLabels} labels - The labels of the series.
+ * @param {{ le: number; count: number }[]} buckets - The cumulative number of observations less than or equal to each bound.
+ * @param {number} sum - The sum of all observations.
+ * @param {number} count - The number of observations.
+ */
+export interface IHistogramSnapshot {
+    name: string;
+    labels: MetricLabels;
+    buckets: { le: number; count: number }[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * Every series recorded by an in-memory metrics collector.
+ */
+export interface IMetricsSnapshot {
+    counters: ICounterSnapshot[];
+    histograms: IHistogramSnapshot[];
+}
@@ -0,0 +1,147 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { ILogger } from '../interfaces/ILogger';
+import { ConnectionManager } from './ConnectionManager';
+import { Logger } from './Logger';
+import { percentile } from './utils';
+
+/**
+ * The percentile of recent prioritization fees used for each priority level.
+ */
+export const PRIORITY_LEVEL_PERCENTILES: { [level in PriorityLevel]: number } = {
+    low: 25,
+    medium: 50,
+    high: 75,
+    veryHigh: 95
+};
+
+// getRecentPrioritizationFees accepts at most 128 accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+/**
+ * Estimates compute unit prices from the prioritization fees paid in recent slots.
+ *
+ * @remarks
+ * Fees are looked up for the writable accounts of a transaction, since those are the accounts competing for block space.
+ * With a ConnectionManager, an endpoint with the 'priority-fees' capability is used if one is known.
+ *
+ * @example
+ * ```typescript
+ * const estimator = PriorityFeeEstimator.create({ connectionManager: cm, maxMicroLamports: 500_000 });
+ * const microLamports = await estimator.estimate({ instructions, level: 'high' });
+ * ```
+ */
+export class PriorityFeeEstimator {
+    private _connection?: Connection;
+    private _connectionManager?: ConnectionManager;
+    private _level: PriorityLevel;
+    private _minMicroLamports: number;
+    private _maxMicroLamports?: number;
+    private _logger: ILogger = new Logger('@soltoolkit/PriorityFeeEstimator');
+
+    private constructor({
+        connection,
+        connectionManager,
+        level = 'medium',
+        minMicroLamports = 0,
+        maxMicroLamports
+    }: IPriorityFeeEstimatorConstructor) {
+        if (!connection && !connectionManager) {
+            throw new Error('No connection or connection manager provided');
+        }
+        this._connection = connection;
+        this._connectionManager = connectionManager;
+        this._level = level;
+        this._minMicroLamports = minMicroLamports;
+        this._maxMicroLamports = maxMicroLamports;
+    }
+
+    public static create(values: IPriorityFeeEstimatorConstructor): PriorityFeeEstimator {
+        return new PriorityFeeEstimator(values);
+    }
+
+    /**
+     * Estimates a compute unit price, clamped between the floor and the cap.
+     * @param instructions - The instructions of the transaction. Fees are looked up for their writable accounts.
+     * @param accounts - Additional accounts to look up fees for.
+     * @param level - The priority level. Defaults to the level the estimator was created with.
+     * @param percentile - A percentile from 0 to 100 to use instead of the level.
+     * @returns The price in micro-lamports per compute unit.
+     */
+    public async estimate({
+        instructions = [],
+        accounts = [],
+        level = this._level,
+        percentile: customPercentile
+    }: {
+        instructions?: TransactionInstruction[];
+        accounts?: PublicKey[];
+        level?: PriorityLevel;
+        percentile?: number;
+    } = {}): Promise<number> {
+        const fees = await this.getRecentFees([...PriorityFeeEstimator.getWritableAccounts(instructions), ...accounts]);
+        const target = customPercentile ?? PRIORITY_LEVEL_PERCENTILES[level];
+        const fee = Math.ceil(percentile(fees, target) ?? 0);
+        const clamped = Math.min(Math.max(fee, this._minMicroLamports), this._maxMicroLamports ?? Infinity);
+        this._logger.debug(`p${target} of ${fees.length} recent prioritization fees is ${fee}, using ${clamped}`);
+        return clamped;
+    }
+
+    /**
+     * Returns the prioritization fees paid in recent slots by transactions writing to any of the accounts.
+     * @param accounts - The accounts. If empty, fees across all transactions are returned.
+     * @returns The fee of each slot in micro-lamports per compute unit.
+     */
+    public async getRecentFees(accounts: PublicKey[] = []): Promise<number[]> {
+        const unique = [...new Map(accounts.map((account) => [account.toBase58(), account])).values()];
+        const fees = await this.getConnection().getRecentPrioritizationFees({
+            lockedWritableAccounts: unique.slice(0, MAX_FEE_ACCOUNTS)
+        });
+        return fees.map((fee) => fee.prioritizationFee);
+    }
+
+    /**
+     * Returns the writable accounts of the instructions, without duplicates.
+     * @param instructions - The instructions.
+     */
+    public static getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+        const accounts = new Map<string, PublicKey>();
+        for (const ix of instructions) {
+            for (const key of ix.keys) {
+                if (key.isWritable) accounts.set(key.pubkey.toBase58(), key.pubkey);
+            }
+        }
+        return [...accounts.values()];
+    }
+
+    private getConnection(): Connection {
+        if (this._connection) return this._connection;
+        const connectionManager = this._connectionManager!;
+        try {
+            return connectionManager.connFor({ requires: ['priority-fees'] });
+        } catch {
+            // capabilities are unknown or no endpoint reported support, try the read endpoint
+            return connectionManager.readConn();
+        }
+    }
+}
+
+/**
+ * How quickly a transaction should land, mapped to a percentile of recent fees by `PRIORITY_LEVEL_PERCENTILES`.
+ */
+export type PriorityLevel = 'low' | 'medium' | 'high' | 'veryHigh';
+
+/**
+ * Options for a priority fee estimator.
+ * @param {Connection=} connection - The connection used to fetch recent fees. Either a connection or a connection manager must be provided.
+ * @param {ConnectionManager=} connectionManager - The connection manager used to fetch recent fees.
+ * @param {PriorityLevel=} level - The default priority level. Defaults to 'medium'.
+ * @param {number=} minMicroLamports - The lowest price returned, in micro-lamports per compute unit. Defaults to 0.
+ * @param {number=} maxMicroLamports - The highest price returned, in micro-lamports per compute unit. Uncapped if not provided.
+ */
+export interface IPriorityFeeEstimatorConstructor {
+    connection?: Connection;
+    connectionManager?: ConnectionManager;
+    level?: PriorityLevel;
+    minMicroLamports?: number;
+    maxMicroLamports?: number;
+}
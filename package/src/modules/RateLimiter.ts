@@ -0,0 +1,162 @@
+/**
+ * A token bucket rate limiter with a cap on concurrent requests. Requests over either limit are queued in order.
+ *
+ * @example
+ * ```typescript
+ * const limiter = RateLimiter.create({ maxRps: 10, maxConcurrent: 5 });
+ * const balance = await limiter.schedule(() => connection.getBalance(address));
+ * ```
+ */
+export class RateLimiter {
+    private _maxRps: number;
+    private _maxConcurrent: number;
+    private _tokens: number;
+    private _lastRefill: number;
+    private _inFlight = 0;
+    private _pausedUntil = 0;
+    private _queue: (() => void)[] = [];
+    private _timer?: ReturnType<typeof setTimeout>;
+
+    private constructor({ maxRps = Infinity, maxConcurrent = Infinity }: IRateLimitConfig) {
+        // a limit of 0 would never grant a request
+        if (!(maxRps > 0)) {
+            throw new Error(`maxRps must be greater than 0, got ${maxRps}`);
+        }
+        if (!(maxConcurrent > 0)) {
+            throw new Error(`maxConcurrent must be greater than 0, got ${maxConcurrent}`);
+        }
+        this._maxRps = maxRps;
+        this._maxConcurrent = maxConcurrent;
+        // allow a burst of up to one second worth of requests
+        this._tokens = maxRps;
+        this._lastRefill = Date.now();
+    }
+
+    public static create(values: IRateLimitConfig = {}): RateLimiter {
+        return new RateLimiter(values);
+    }
+
+    /**
+     * The number of requests waiting for a token or a concurrency slot.
+     */
+    public get queueDepth(): number {
+        return this._queue.length;
+    }
+
+    /**
+     * The number of requests that have acquired a slot and not yet released it.
+     */
+    public get inFlight(): number {
+        return this._inFlight;
+    }
+
+    /**
+     * Waits until a request can be made within the limits. Every call must be followed by `release()` once the request completes.
+     */
+    public acquire(): Promise<void> {
+        return new Promise((resolve) => {
+            this._queue.push(resolve);
+            this.drain();
+        });
+    }
+
+    /**
+     * Frees the concurrency slot taken by `acquire()`.
+     */
+    public release(): void {
+        this._inFlight = Math.max(this._inFlight - 1, 0);
+        this.drain();
+    }
+
+    /**
+     * Runs the function once a request can be made within the limits, releasing the slot when it settles.
+     * @param fn - The function making the request.
+     * @returns The result of the function.
+     */
+    public async schedule<T>(fn: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await fn();
+        } finally {
+            this.release();
+        }
+    }
+
+    /**
+     * Holds all queued and new requests for the given time, e.g. after the server responds with a `Retry-After` header.
+     * @param ms - Time in milliseconds.
+     */
+    public pauseFor(ms: number): void {
+        this._pausedUntil = Math.max(this._pausedUntil, Date.now() + ms);
+        this.drain();
+    }
+
+    private drain(): void {
+        while (this._queue.length > 0) {
+            const now = Date.now();
+            if (now < this._pausedUntil) {
+                this.scheduleDrain(this._pausedUntil - now);
+                return;
+            }
+            if (this._inFlight >= this._maxConcurrent) {
+                // release() drains again once a slot frees up
+                return;
+            }
+
+            this.refill(now);
+            if (this._tokens < 1) {
+                this.scheduleDrain(Math.ceil(((1 - this._tokens) / this._maxRps) * 1000));
+                return;
+            }
+
+            this._tokens -= 1;
+            this._inFlight += 1;
+            this._queue.shift()!();
+        }
+    }
+
+    private refill(now: number): void {
+        if (this._maxRps === Infinity) {
+            this._tokens = Infinity;
+            return;
+        }
+        const elapsedSeconds = (now - this._lastRefill) / 1000;
+        this._tokens = Math.min(this._maxRps, this._tokens + elapsedSeconds * this._maxRps);
+        this._lastRefill = now;
+    }
+
+    private scheduleDrain(delayMs: number): void {
+        if (this._timer !== undefined) return;
+        this._timer = setTimeout(() => {
+            this._timer = undefined;
+            this.drain();
+        }, delayMs);
+    }
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ * @param value - The header value.
+ * @returns The time to wait in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (value === null || value === undefined || value.trim() === '') {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Limits for a rate limiter.
+ * @param {number=} maxRps - The maximum number of requests per second, greater than 0. Unlimited if not provided.
+ * @param {number=} maxConcurrent - The maximum number of requests in flight at once, greater than 0. Unlimited if not provided.
+ */
+export interface IRateLimitConfig {
+    maxRps?: number;
+    maxConcurrent?: number;
+}
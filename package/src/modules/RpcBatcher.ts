@@ -0,0 +1,294 @@
+import { createResponse, FetchFn, IJsonRpcRequest, IJsonRpcResponse } from './JsonRpc';
+
+/**
+ * RPC methods batched by default. Only reads are batched, so a failed batch never affects a send.
+ */
+export const DEFAULT_BATCHED_METHODS = [
+    'getAccountInfo',
+    'getBalance',
+    'getMultipleAccounts',
+    'getTokenAccountBalance',
+    'getTokenAccountsByOwner',
+    'getSignatureStatuses',
+    'getTransaction',
+    'getBlockHeight',
+    'getSlot'
+];
+
+// the most accounts getMultipleAccounts accepts in one request
+const MAX_MULTIPLE_ACCOUNTS = 100;
+
+/**
+ * Reads of a single account that can be combined into one `getMultipleAccounts` request.
+ * `config` returns the getMultipleAccounts config for the request, `value` converts an account to the request's result.
+ */
+const ACCOUNT_READS: {
+    [method: string]: { config: (params: unknown[]) => object; value: (account: unknown) => unknown };
+} = {
+    getAccountInfo: {
+        config: (params) => configOf(params),
+        value: (account) => account
+    },
+    getBalance: {
+        // only the lamports are needed, so no account data is returned
+        config: (params) => ({ ...configOf(params), encoding: 'base64', dataSlice: { offset: 0, length: 0 } }),
+        value: (account) =>
+            typeof account === 'object' && account !== null && 'lamports' in account ? account.lamports : 0
+    }
+};
+
+/**
+ * Returns the config of a single account read, its second param.
+ */
+function configOf(params: unknown[]): object {
+    const config = params[1];
+    return typeof config === 'object' && config !== null ? config : {};
+}
+
+/**
+ * Collects JSON-RPC requests made in the same tick, or within `intervalMs`, and sends them as one batch request.
+ *
+ * @remarks
+ * Reads of single accounts with the same config are combined into `getMultipleAccounts` requests. If the endpoint
+ * does not support batch requests, the collected requests are sent one by one.
+ */
+export class RpcBatcher {
+    private _send: FetchFn;
+    private _maxBatchSize: number;
+    private _intervalMs: number;
+    private _coalesceAccounts: boolean;
+    private _methods: string[];
+    private _queue: IQueuedRequest[] = [];
+    private _timer?: ReturnType<typeof setTimeout>;
+    private _nextId = 0;
+
+    private constructor(
+        send: FetchFn,
+        { maxBatchSize = 100, intervalMs = 0, coalesceAccounts = true, methods = DEFAULT_BATCHED_METHODS }: IBatchConfig
+    ) {
+        this._send = send;
+        this._maxBatchSize = maxBatchSize;
+        this._intervalMs = intervalMs;
+        this._coalesceAccounts = coalesceAccounts;
+        this._methods = methods;
+    }
+
+    /**
+     * Creates a batcher.
+     * @param send - Sends a single HTTP request to the endpoint.
+     * @param values - The batch options.
+     */
+    public static create(send: FetchFn, values: IBatchConfig = {}): RpcBatcher {
+        return new RpcBatcher(send, values);
+    }
+
+    /**
+     * Returns true if the request's method is batched.
+     */
+    public isBatchable(request: IJsonRpcRequest): boolean {
+        return this._methods.includes(request.method);
+    }
+
+    /**
+     * Adds the request to the next batch.
+     * @param input - The url passed to fetch.
+     * @param init - The options passed to fetch.
+     * @param request - The parsed request body.
+     * @returns The response to the request.
+     */
+    public enqueue(
+        input: Parameters<FetchFn>[0],
+        init: Parameters<FetchFn>[1],
+        request: IJsonRpcRequest
+    ): Promise<Response> {
+        return new Promise((resolve, reject) => {
+            this._queue.push({ input, init, request, resolve, reject });
+            if (this._queue.length >= this._maxBatchSize) {
+                this.flush();
+            } else if (this._timer === undefined) {
+                this._timer = setTimeout(() => this.flush(), this._intervalMs);
+            }
+        });
+    }
+
+    private flush(): void {
+        if (this._timer !== undefined) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+        while (this._queue.length > 0) {
+            void this.sendBatch(this._queue.splice(0, this._maxBatchSize));
+        }
+    }
+
+    private async sendBatch(batch: IQueuedRequest[]): Promise<void> {
+        if (batch.length === 1) {
+            return this.sendEach(batch);
+        }
+
+        const calls = this.toCalls(batch);
+        let response: Response;
+        let text: string;
+        try {
+            response = await this._send(batch[0].input, {
+                ...batch[0].init,
+                body: JSON.stringify(calls.map((call) => call.request))
+            });
+            text = await response.text();
+        } catch (e) {
+            batch.forEach((queued) => queued.reject(e));
+            return;
+        }
+
+        if (!response.ok) {
+            // pass the HTTP error to every request so web3.js can handle it, e.g. retry after a 429
+            const init = { status: response.status, statusText: response.statusText, headers: response.headers };
+            batch.forEach((queued) => queued.resolve(createResponse(text, init)));
+            return;
+        }
+
+        let results: IJsonRpcResponse[];
+        try {
+            results = JSON.parse(text);
+        } catch {
+            results = [];
+        }
+        if (!Array.isArray(results)) {
+            // the endpoint does not support batch requests
+            return this.sendEach(batch);
+        }
+
+        const resultsById = new Map(results.map((result) => [result.id, result]));
+        for (const call of calls) {
+            const result = resultsById.get(call.request.id) ?? {
+                jsonrpc: '2.0',
+                id: call.request.id,
+                error: { code: -32603, message: 'No response to request in batch' }
+            };
+            call.respond(result);
+        }
+    }
+
+    private async sendEach(batch: IQueuedRequest[]): Promise<void> {
+        await Promise.all(
+            batch.map(async (queued) => {
+                try {
+                    queued.resolve(await this._send(queued.input, queued.init));
+                } catch (e) {
+                    queued.reject(e);
+                }
+            })
+        );
+    }
+
+    /**
+     * Returns the requests to send in the batch, combining reads of single accounts with the same config.
+     */
+    private toCalls(batch: IQueuedRequest[]): IBatchCall[] {
+        const calls: IBatchCall[] = [];
+        const accountReads = new Map<string, IQueuedRequest[]>();
+
+        for (const queued of batch) {
+            const { method, params } = queued.request;
+            if (this._coalesceAccounts && ACCOUNT_READS[method] !== undefined && typeof params?.[0] === 'string') {
+                const key = `${method}:${JSON.stringify(ACCOUNT_READS[method].config(params))}`;
+                accountReads.set(key, [...(accountReads.get(key) || []), queued]);
+            } else {
+                calls.push({
+                    request: queued.request,
+                    respond: (result) => queued.resolve(createResponse(result))
+                });
+            }
+        }
+
+        for (const group of accountReads.values()) {
+            if (group.length === 1) {
+                calls.push({
+                    request: group[0].request,
+                    respond: (result) => group[0].resolve(createResponse(result))
+                });
+                continue;
+            }
+            for (let i = 0; i < group.length; i += MAX_MULTIPLE_ACCOUNTS) {
+                calls.push(this.toMultipleAccountsCall(group.slice(i, i + MAX_MULTIPLE_ACCOUNTS)));
+            }
+        }
+        return calls;
+    }
+
+    private toMultipleAccountsCall(group: IQueuedRequest[]): IBatchCall {
+        const { method, params } = group[0].request;
+        const accountRead = ACCOUNT_READS[method];
+        return {
+            request: {
+                jsonrpc: '2.0',
+                id: `soltoolkit-batch-${this._nextId++}`,
+                method: 'getMultipleAccounts',
+                params: [group.map((queued) => queued.request.params![0]), accountRead.config(params!)]
+            },
+            respond: (result) => {
+                const accounts = result.result;
+                group.forEach((queued, i) => {
+                    const id = queued.request.id;
+                    const response: IJsonRpcResponse = isMultipleAccountsResult(accounts)
+                        ? {
+                              jsonrpc: '2.0',
+                              id,
+                              result: { context: accounts.context, value: accountRead.value(accounts.value[i]) }
+                          }
+                        : {
+                              jsonrpc: '2.0',
+                              id,
+                              error: result.error ?? {
+                                  code: -32603,
+                                  message: 'Invalid getMultipleAccounts result in batch'
+                              }
+                          };
+                    queued.resolve(createResponse(response));
+                });
+            }
+        };
+    }
+}
+
+/**
+ * Returns true if the result of a getMultipleAccounts request holds its accounts.
+ */
+function isMultipleAccountsResult(result: unknown): result is { context: unknown; value: unknown[] } {
+    return (
+        typeof result === 'object' &&
+        result !== null &&
+        'context' in result &&
+        'value' in result &&
+        Array.isArray(result.value)
+    );
+}
+
+interface IQueuedRequest {
+    input: Parameters<FetchFn>[0];
+    init: Parameters<FetchFn>[1];
+    request: IJsonRpcRequest;
+    resolve: (response: Response) => void;
+    reject: (error: unknown) => void;
+}
+
+interface IBatchCall {
+    request: IJsonRpcRequest;
+    respond: (result: IJsonRpcResponse) => void;
+}
+
+/**
+ * Options for batching RPC requests.
+ * @param {boolean=} enabled - Whether to batch requests. Defaults to false.
+ * @param {number=} maxBatchSize - The maximum number of requests in one batch. Defaults to 100.
+ * @param {number=} intervalMs - How long to collect requests before sending a batch, in milliseconds. Defaults to 0, which collects the requests made in the same tick.
+ * @param {boolean=} coalesceAccounts - Whether to combine `getAccountInfo` and `getBalance` requests into `getMultipleAccounts` requests. Defaults to true.
+ * @param {string[]=} methods - The RPC methods to batch. Defaults to `DEFAULT_BATCHED_METHODS`.
+ */
+export interface IBatchConfig {
+    enabled?: boolean;
+    maxBatchSize?: number;
+    intervalMs?: number;
+    coalesceAccounts?: boolean;
+    methods?: string[];
+}
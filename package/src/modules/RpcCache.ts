@@ -0,0 +1,157 @@
+import { createResponse, IJsonRpcRequest } from './JsonRpc';
+
+/**
+ * RPC methods cached by default.
+ */
+export const DEFAULT_CACHED_METHODS = [
+    'getLatestBlockhash',
+    'getAccountInfo',
+    'getMultipleAccounts',
+    'getBalance',
+    'getTokenAccountBalance',
+    'getMinimumBalanceForRentExemption'
+];
+
+/**
+ * A short-lived cache of JSON-RPC results, keyed by endpoint, method and params (which include the commitment).
+ *
+ * @remarks
+ * Identical requests made while the first one is in flight share its result. Only successful results are cached,
+ * so a failed request is retried by the next caller.
+ */
+export class RpcCache {
+    private _ttlMs: number;
+    private _maxEntries: number;
+    private _methods: string[];
+    private _entries: Map<string, ICacheEntry> = new Map();
+
+    private constructor({ ttlMs = 1_000, maxEntries = 1_000, methods = DEFAULT_CACHED_METHODS }: ICacheConfig) {
+        this._ttlMs = ttlMs;
+        this._maxEntries = maxEntries;
+        this._methods = methods;
+    }
+
+    public static create(values: ICacheConfig = {}): RpcCache {
+        return new RpcCache(values);
+    }
+
+    /**
+     * The number of entries currently held, including expired entries not yet evicted.
+     */
+    public get size(): number {
+        return this._entries.size;
+    }
+
+    /**
+     * Returns true if the request's method is cached.
+     */
+    public isCacheable(request: IJsonRpcRequest): boolean {
+        return this._methods.includes(request.method);
+    }
+
+    /**
+     * Returns the cached result of the request, or dispatches it and caches the result.
+     * @param endpoint - The endpoint the request is sent to. Results are never shared between endpoints.
+     * @param request - The JSON-RPC request.
+     * @param dispatch - Sends the request.
+     * @returns The response, with the id of the request.
+     */
+    public async fetch(
+        endpoint: string,
+        request: IJsonRpcRequest,
+        dispatch: () => Promise<Response>
+    ): Promise<Response> {
+        const key = `${endpoint} ${request.method}:${JSON.stringify(request.params ?? [])}`;
+        const cached = this._entries.get(key);
+        if (cached !== undefined && cached.expiresAt > Date.now()) {
+            try {
+                return createResponse({ jsonrpc: '2.0', id: request.id, result: await cached.result });
+            } catch {
+                // the shared request failed, send this one on its own
+                return dispatch();
+            }
+        }
+
+        let resolveResult!: (result: unknown) => void;
+        let rejectResult!: (error: unknown) => void;
+        const entry: ICacheEntry = {
+            expiresAt: Date.now() + this._ttlMs,
+            result: new Promise((resolve, reject) => {
+                resolveResult = resolve;
+                rejectResult = reject;
+            })
+        };
+        // callers sharing the entry handle the rejection, this only keeps it from being reported as unhandled
+        entry.result.catch(() => undefined);
+        this.set(key, entry);
+
+        try {
+            const response = await dispatch();
+            const text = await response.text();
+            const json = response.ok ? parseJson(text) : undefined;
+            if (typeof json === 'object' && json !== null && !('error' in json) && 'result' in json) {
+                resolveResult(json.result);
+            } else {
+                this.evict(key, entry);
+                rejectResult(new Error(`${request.method} failed`));
+            }
+            return createResponse(text, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers
+            });
+        } catch (e) {
+            this.evict(key, entry);
+            rejectResult(e);
+            throw e;
+        }
+    }
+
+    /**
+     * Removes every entry.
+     */
+    public clear(): void {
+        this._entries.clear();
+    }
+
+    private set(key: string, entry: ICacheEntry): void {
+        this._entries.delete(key);
+        this._entries.set(key, entry);
+        // maps iterate in insertion order, so the first entries are the oldest
+        for (const [oldestKey, oldest] of this._entries) {
+            if (this._entries.size <= this._maxEntries && oldest.expiresAt > Date.now()) break;
+            this._entries.delete(oldestKey);
+        }
+    }
+
+    private evict(key: string, entry: ICacheEntry): void {
+        if (this._entries.get(key) === entry) this._entries.delete(key);
+    }
+}
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+interface ICacheEntry {
+    expiresAt: number;
+    result: Promise<unknown>;
+}
+
+/**
+ * Options for the RPC response cache.
+ * @param {boolean=} enabled - Whether to cache responses. Defaults to false.
+ * @param {number=} ttlMs - How long a result is reused, in milliseconds. Defaults to 1,000.
+ * @param {number=} maxEntries - The maximum number of cached results. The oldest are evicted first. Defaults to 1,000.
+ * @param {string[]=} methods - The RPC methods to cache. Defaults to `DEFAULT_CACHED_METHODS`.
+ */
+export interface ICacheConfig {
+    enabled?: boolean;
+    ttlMs?: number;
+    maxEntries?: number;
+    methods?: string[];
+}
@@ -0,0 +1,203 @@
+import { ACCOUNT_SIZE, AccountLayout, AccountType, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+    AccountInfo,
+    Commitment,
+    Connection,
+    PublicKey,
+    SimulatedTransactionAccountInfo,
+    Transaction,
+    TransactionError,
+    VersionedTransaction
+} from '@solana/web3.js';
+import { parseSimulationError, SimulationFailedError } from './errors';
+
+/**
+ * Simulates a transaction without sending it. Signatures are not verified and the blockhash is replaced by the node,
+ * so unsigned transactions and transactions without a blockhash can be simulated.
+ * @param connection - The connection to simulate with.
+ * @param transaction - A legacy or versioned transaction, or its serialized bytes.
+ * @param accounts - Accounts to report the balances of before and after the transaction.
+ * @param commitment - The commitment to simulate at. Defaults to the connection's commitment.
+ * @returns The result, with the program logs parsed into a tree per instruction.
+ */
+export async function simulateTransaction({
+    connection,
+    transaction,
+    accounts = [],
+    commitment
+}: {
+    connection: Connection;
+    transaction: Transaction | VersionedTransaction | Uint8Array | Buffer | number[];
+    accounts?: PublicKey[];
+    commitment?: Commitment;
+}): Promise<ISimulationResult> {
+    const versionedTx = toVersionedTransaction(transaction);
+    const [preAccounts, { value }] = await Promise.all([
+        accounts.length > 0 ? connection.getMultipleAccountsInfo(accounts, commitment) : Promise.resolve([]),
+        connection.simulateTransaction(versionedTx, {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            commitment,
+            accounts:
+                accounts.length > 0
+                    ? { encoding: 'base64', addresses: accounts.map((account) => account.toBase58()) }
+                    : undefined
+        })
+    ]);
+
+    const logs = value.logs || [];
+    return {
+        success: value.err === null,
+        err: value.err,
+        error: value.err !== null ? parseSimulationError(value.err, logs) : undefined,
+        unitsConsumed: value.unitsConsumed,
+        logs,
+        instructions: parseLogs(logs),
+        balances: accounts.map((address, i) => {
+            const pre = preAccounts[i];
+            const post = value.accounts?.[i] ?? null;
+            return {
+                address,
+                preLamports: pre?.lamports ?? 0,
+                postLamports: post?.lamports ?? 0,
+                preTokenAmount: getTokenAmount(pre),
+                postTokenAmount: getTokenAmount(post)
+            };
+        })
+    };
+}
+
+/**
+ * Parses program logs into a tree of program invocations. The top-level entries are the instructions of the
+ * transaction, in order, and their `children` the cross-program invocations they made.
+ * @param logs - The log messages of a transaction or simulation.
+ */
+export function parseLogs(logs: string[]): IInstructionLog[] {
+    const instructions: IInstructionLog[] = [];
+    const stack: IInstructionLog[] = [];
+
+    for (const line of logs) {
+        const invoke = /^Program (\w+) invoke \[(\d+)\]$/.exec(line);
+        if (invoke) {
+            const node: IInstructionLog = {
+                index: stack.length === 0 ? instructions.length : stack[stack.length - 1].children.length,
+                programId: invoke[1],
+                depth: Number(invoke[2]),
+                logs: [],
+                children: []
+            };
+            (stack.length === 0 ? instructions : stack[stack.length - 1].children).push(node);
+            stack.push(node);
+            continue;
+        }
+
+        const current = stack[stack.length - 1];
+        if (current === undefined) continue;
+
+        const consumed = /^Program \w+ consumed (\d+) of \d+ compute units$/.exec(line);
+        const failed = /^Program \w+ failed: (.*)$/.exec(line);
+        if (consumed) {
+            current.unitsConsumed = Number(consumed[1]);
+        } else if (/^Program \w+ success$/.test(line)) {
+            current.success = true;
+            stack.pop();
+        } else if (failed) {
+            current.success = false;
+            current.error = failed[1];
+            stack.pop();
+        } else {
+            current.logs.push(line);
+        }
+    }
+    return instructions;
+}
+
+function toVersionedTransaction(
+    transaction: Transaction | VersionedTransaction | Uint8Array | Buffer | number[]
+): VersionedTransaction {
+    if (transaction instanceof VersionedTransaction) return transaction;
+    if (!(transaction instanceof Transaction)) return VersionedTransaction.deserialize(Uint8Array.from(transaction));
+    if (transaction.feePayer === undefined) {
+        throw new Error('Fee payer must be defined');
+    }
+    // the blockhash is replaced by the node, any value compiles
+    const unsigned = new Transaction({
+        feePayer: transaction.feePayer,
+        blockhash: transaction.recentBlockhash || PublicKey.default.toBase58(),
+        lastValidBlockHeight: 0
+    }).add(...transaction.instructions);
+    return new VersionedTransaction(unsigned.compileMessage());
+}
+
+/**
+ * Returns the raw amount held by a token account, or undefined if the account is not a token account.
+ */
+function getTokenAmount(account: AccountInfo<Buffer> | SimulatedTransactionAccountInfo | null): string | undefined {
+    if (account === null) return undefined;
+    const owner = account.owner.toString();
+    if (owner !== TOKEN_PROGRAM_ID.toBase58() && owner !== TOKEN_2022_PROGRAM_ID.toBase58()) return undefined;
+
+    const data = Buffer.isBuffer(account.data) ? account.data : Buffer.from(account.data[0], 'base64');
+    // mints are shorter, token-2022 accounts with extensions are longer and store their type after the account data
+    const isTokenAccount =
+        data.length === ACCOUNT_SIZE || (data.length > ACCOUNT_SIZE && data[ACCOUNT_SIZE] === AccountType.Account);
+    return isTokenAccount ? AccountLayout.decode(data).amount.toString() : undefined;
+}
+
+/**
+ * The invocation of a program, parsed from the logs.
+ * @param {number} index - The position of the instruction in the transaction, or of the invocation among those made by its parent.
+ * @param {string} programId - The program invoked.
+ * @param {number} depth - 1 for instructions of the transaction, 2 and up for cross-program invocations.
+ * @param {string[]} logs - The messages logged by the program, e.g. "Program log: ...".
+ * @param {IInstructionLog[]} children - The invocations made by the program.
+ * @param {number=} unitsConsumed - The compute units consumed, including those of the children.
+ * @param {boolean=} success - Whether the program succeeded. Undefined if the logs were truncated first.
+ * @param {string=} error - Why the program failed.
+ */
+export interface IInstructionLog {
+    index: number;
+    programId: string;
+    depth: number;
+    logs: string[];
+    children: IInstructionLog[];
+    unitsConsumed?: number;
+    success?: boolean;
+    error?: string;
+}
+
+/**
+ * The balances of an account before and after a simulated transaction.
+ * @param {PublicKey} address - The account.
+ * @param {number} preLamports - The lamports before the transaction, 0 if the account did not exist.
+ * @param {number} postLamports - The lamports after the transaction, 0 if the account was closed.
+ * @param {string=} preTokenAmount - The raw amount held before the transaction, if it is a token account.
+ * @param {string=} postTokenAmount - The raw amount held after the transaction, if it is a token account.
+ */
+export interface IBalanceChange {
+    address: PublicKey;
+    preLamports: number;
+    postLamports: number;
+    preTokenAmount?: string;
+    postTokenAmount?: string;
+}
+
+/**
+ * The result of a simulated transaction.
+ * @param {boolean} success - Whether the transaction would succeed.
+ * @param {TransactionError | null} err - The error reported by the node.
+ * @param {SimulationFailedError=} error - The error, with its classification by `parseTransactionError()` as `cause`.
+ * @param {number=} unitsConsumed - The compute units consumed.
+ * @param {string[]} logs - The program logs.
+ * @param {IInstructionLog[]} instructions - The logs parsed into a tree per instruction.
+ * @param {IBalanceChange[]} balances - The balances of the requested accounts.
+ */
+export interface ISimulationResult {
+    success: boolean;
+    err: TransactionError | null;
+    error?: SimulationFailedError;
+    unitsConsumed?: number;
+    logs: string[];
+    instructions: IInstructionLog[];
+    balances: IBalanceChange[];
+}
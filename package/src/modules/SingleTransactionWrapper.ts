@@ -1,6 +1,8 @@
 import { Transaction, Connection, PublicKey, ConnectionConfig, Commitment, Signer, VersionedTransaction } from '@solana/web3.js';
 import { IWallet } from '../interfaces/IWallet';
 import { ConnectionManager } from './ConnectionManager';
+import { parseError, parseTransactionError } from './errors';
+import { ISimulationResult, simulateTransaction } from './Simulation';
 
 /**
  * Represents a wrapper class for a single transaction.
@@ -12,6 +14,7 @@ export class SingleTransactionWrapper {
     private _shouldAddFeePayer = true;
     private _shouldSign = true;
     private _shouldConfirm = true;
+    private _shouldSimulate = false;
 
     private constructor() { }
     public create() { return new SingleTransactionWrapper(); }
@@ -27,7 +30,7 @@ export class SingleTransactionWrapper {
         if (connection instanceof Connection) {
             this._connections.push(connection);
         } else if (connection instanceof ConnectionManager) {
-            this._connections.push(connection.connSync({}));
+            this._connections.push(connection.sendConn({ changeConn: true }));
         } else if (typeof connection === 'string') {
             this._connections.push(new Connection(connection, config));
         } else {
@@ -51,6 +54,38 @@ export class SingleTransactionWrapper {
         this._shouldConfirm = shouldConfirm;
         return this;
     }
+    /**
+     * If true, the transaction is simulated before sending and not sent if the simulation fails.
+     */
+    public setShouldSimulate(shouldSimulate: boolean) {
+        this._shouldSimulate = shouldSimulate;
+        return this;
+    }
+    /**
+     * Simulates the transaction on the first connection without sending it.
+     * @param accounts Accounts to report the balances of before and after the transaction.
+     * @param throwOnFailure Whether to throw a SimulationFailedError if the transaction would fail. Defaults to false.
+     * @returns The compute units consumed, the balances, and the program logs parsed into a tree per instruction.
+     */
+    public async simulate({
+        accounts,
+        throwOnFailure = false
+    }: {
+        accounts?: PublicKey[];
+        throwOnFailure?: boolean;
+    } = {}): Promise<ISimulationResult> {
+        if (this._transaction === undefined) {
+            throw new Error('Transaction is undefined');
+        }
+        if (this._connections.length === 0) {
+            throw new Error('No connections provided');
+        }
+        const result = await simulateTransaction({ connection: this._connections[0], transaction: this._transaction, accounts });
+        if (result.error !== undefined && throwOnFailure) {
+            throw result.error;
+        }
+        return result;
+    }
     public setBlockhash(blockhash: string) {
         if (this._transaction instanceof Transaction) {
             this._transaction.recentBlockhash = blockhash;
@@ -143,6 +178,11 @@ export class SingleTransactionWrapper {
             }
         }
 
+        // simulate transaction if needed
+        if (this._shouldSimulate) {
+            await this.simulate({ throwOnFailure: true });
+        }
+
         // send transaction
         let signatures: string[] = [];
         if (shouldRaceSend) {
@@ -151,19 +191,27 @@ export class SingleTransactionWrapper {
                 signatures.push(signature);
             }));
         } else {
-            let signature = await this.sendTransaction(skipPreflight, this._connections[0]);
-            signatures.push(signature);
+            // move on to the next connection only if the error is worth retrying, e.g. a rate limit or timeout
+            for (let i = 0; i < this._connections.length; i++) {
+                try {
+                    let signature = await this.sendTransaction(skipPreflight, this._connections[i]);
+                    signatures.push(signature);
+                    break;
+                } catch (e) {
+                    if (!parseError(e).retryable || i === this._connections.length - 1) throw e;
+                }
+            }
         }
 
         // confirm transaction if needed
         if (this._shouldConfirm && shouldConfirmOverride && signatures.length > 0 && shouldRaceSend === false) {
             await Promise.all(signatures.map(async (sig) => {
-                return await this._connections[0].confirmTransaction(sig, confirmationCommitment || 'max');
+                return await this.confirmTransaction(sig, confirmationCommitment, this._connections[0]);
             }));
         } else if (this._shouldConfirm && shouldConfirmOverride && signatures.length > 0 && shouldRaceSend) {
             await Promise.all(this._connections.map(async (conn) => {
                 return await Promise.all(signatures.map(async (sig) => {
-                    return await conn.confirmTransaction(sig, confirmationCommitment || 'max');
+                    return await this.confirmTransaction(sig, confirmationCommitment, conn);
                 }));
             }));
         }
@@ -173,19 +221,36 @@ export class SingleTransactionWrapper {
     private async sendTransaction(skipPreflight: boolean | undefined, connection: Connection) {
         connection = connection || this._connections[0];
         let signature: string | undefined;
-        if (this._transaction instanceof Transaction) {
-            signature = await this._connections[0].sendRawTransaction(this._transaction.serialize(), {
-                skipPreflight: skipPreflight || false
-            });
-        } else if (this._transaction instanceof VersionedTransaction) {
-            signature = await this._connections[0].sendTransaction(this._transaction, { skipPreflight: skipPreflight || false });
-        } else if (this._transaction instanceof Buffer) {
-            signature = await this._connections[0].sendRawTransaction(this._transaction, {
-                skipPreflight: skipPreflight || false
-            });
-        } else {
+        if (!(this._transaction instanceof Transaction || this._transaction instanceof VersionedTransaction || this._transaction instanceof Buffer)) {
             throw new Error('Invalid transaction type');
         }
+        try {
+            if (this._transaction instanceof Transaction) {
+                signature = await connection.sendRawTransaction(this._transaction.serialize(), {
+                    skipPreflight: skipPreflight || false
+                });
+            } else if (this._transaction instanceof VersionedTransaction) {
+                signature = await connection.sendTransaction(this._transaction, { skipPreflight: skipPreflight || false });
+            } else {
+                signature = await connection.sendRawTransaction(this._transaction, {
+                    skipPreflight: skipPreflight || false
+                });
+            }
+        } catch (e) {
+            throw parseError(e);
+        }
         return signature;
     }
+    private async confirmTransaction(signature: string, commitment: Commitment | undefined, connection: Connection) {
+        let result;
+        try {
+            result = await connection.confirmTransaction(signature, commitment || 'max');
+        } catch (e) {
+            throw parseError(e);
+        }
+        if (result.value.err !== null) {
+            throw parseTransactionError(result.value.err);
+        }
+        return result;
+    }
 }
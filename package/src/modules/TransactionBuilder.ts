@@ -10,14 +10,32 @@ import {
     PublicKey,
     SystemProgram,
     Signer,
-    ComputeBudgetProgram
+    ComputeBudgetProgram,
+    ComputeBudgetInstructionType,
+    AddressLookupTableAccount,
+    MessageV0,
+    VersionedTransaction,
+    PACKET_DATA_SIZE
 } from '@solana/web3.js';
 import { ILogger } from '../interfaces/ILogger';
 import { ConnectionManager } from './ConnectionManager';
 import { Logger } from './Logger';
+import { TransactionHelper } from './TransactionHelper';
+import { PriorityFeeEstimator, PriorityLevel } from './PriorityFeeEstimator';
+import { parseSimulationError } from './errors';
 
 export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
 
+/**
+ * Compute units used by each compute budget instruction, counted in the limits set by `pack()`.
+ */
+export const COMPUTE_BUDGET_INSTRUCTION_UNITS = 150;
+
+/**
+ * The most compute units a transaction can request.
+ */
+export const MAX_TRANSACTION_COMPUTE_UNITS = 1_400_000;
+
 export class TransactionBuilder {
     private _transaction: Transaction;
     private _instructions: TransactionInstruction[];
@@ -149,6 +167,88 @@ export class TransactionBuilder {
 
     
 
+    /**
+     * Simulates the instructions and sets the compute unit limit to the units consumed plus a margin, replacing any
+     * limit already added. A compute unit price added with `addComputeBudgetIx` is kept.
+     * @param connectionOrConnectionManager - The connection, or the connection manager whose current connection is used.
+     * @param feePayer - The fee payer of the transaction.
+     * @param margin - The fraction added to the units consumed, e.g. 0.1 for 10%. Defaults to 0.1.
+     * @param lookupTables - Address lookup tables the transaction will use. Optional.
+     * @returns The builder.
+     * @throws {SimulationFailedError} If the simulation fails, with its logs.
+     */
+    public async setComputeUnitLimitFromSimulation({
+        connectionOrConnectionManager,
+        feePayer,
+        margin = 0.1,
+        lookupTables
+    }: {
+        connectionOrConnectionManager: Connection | ConnectionManager;
+        feePayer: PublicKey;
+        margin?: number;
+        lookupTables?: AddressLookupTableAccount[];
+    }): Promise<TransactionBuilder> {
+        var connection: Connection;
+        if (connectionOrConnectionManager instanceof Connection) {
+            connection = connectionOrConnectionManager;
+        } else if (connectionOrConnectionManager instanceof ConnectionManager) {
+            connection = connectionOrConnectionManager._connection;
+        } else {
+            throw new Error('Invalid connectionOrConnectionManager');
+        }
+
+        const instructions = this._instructions.filter((ix) => !isComputeBudgetIx(ix, 'SetComputeUnitLimit'));
+        // simulate with the highest limit so the result is not capped by the default of 200,000 units per instruction
+        const message = MessageV0.compile({
+            payerKey: feePayer,
+            instructions: [
+                ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_TRANSACTION_COMPUTE_UNITS }),
+                ...instructions
+            ],
+            // replaced by the node
+            recentBlockhash: PublicKey.default.toBase58(),
+            addressLookupTableAccounts: lookupTables
+        });
+        const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+            sigVerify: false,
+            replaceRecentBlockhash: true
+        });
+        if (value.err !== null) {
+            throw parseSimulationError(value.err, value.logs || undefined);
+        }
+        if (value.unitsConsumed === undefined) {
+            throw this._logger.makeError('Simulation did not report the compute units consumed');
+        }
+
+        const units = Math.min(Math.ceil(value.unitsConsumed * (1 + margin)), MAX_TRANSACTION_COMPUTE_UNITS);
+        this._logger.debug(`simulation consumed ${value.unitsConsumed} compute units, setting limit to ${units}`);
+        this._instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units }), ...instructions];
+        return this;
+    }
+
+    /**
+     * Estimates a priority fee from the recent fees paid for the writable accounts of the instructions, and sets the
+     * compute unit price to it, replacing any price already added.
+     * @param estimator - The priority fee estimator, which applies its floor and cap.
+     * @param level - The priority level. Defaults to the estimator's level.
+     * @param percentile - A percentile from 0 to 100 to use instead of the level.
+     * @returns The builder.
+     */
+    public async addPriorityFeeIx({
+        estimator,
+        level,
+        percentile
+    }: {
+        estimator: PriorityFeeEstimator;
+        level?: PriorityLevel;
+        percentile?: number;
+    }): Promise<TransactionBuilder> {
+        const instructions = this._instructions.filter((ix) => !isComputeBudgetIx(ix, 'SetComputeUnitPrice'));
+        const microLamports = await estimator.estimate({ instructions, level, percentile });
+        this._instructions = [ComputeBudgetProgram.setComputeUnitPrice({ microLamports }), ...instructions];
+        return this;
+    }
+
     public addIx(instruction: TransactionInstruction | TransactionInstruction[]): TransactionBuilder {
         this._instructions = this._instructions.concat(instruction);
         this.logNumberOfIxs();
@@ -168,5 +268,127 @@ export class TransactionBuilder {
         return this._transaction;
     }
 
+    /**
+     * Compiles the instructions into a versioned transaction with a v0 message.
+     * @param payer - The fee payer.
+     * @param recentBlockhash - The blockhash the transaction is valid for.
+     * @param lookupTables - Address lookup tables used to shorten the account list. Optional.
+     * @returns The unsigned transaction.
+     */
+    public buildV0({
+        payer,
+        recentBlockhash,
+        lookupTables = []
+    }: {
+        payer: PublicKey;
+        recentBlockhash: string;
+        lookupTables?: AddressLookupTableAccount[];
+    }): VersionedTransaction {
+        this.logNumberOfIxs();
+        const message = MessageV0.compile({
+            payerKey: payer,
+            instructions: this._instructions,
+            recentBlockhash,
+            addressLookupTableAccounts: lookupTables
+        });
+        return new VersionedTransaction(message);
+    }
+
+    /**
+     * Splits instructions into as few transactions as possible, keeping their order. Each transaction fits in a packet
+     * and starts with the compute unit price, if one is provided.
+     * If the compute units are estimated, each transaction also stays within the compute unit budget and sets its limit
+     * to the units of its instructions, including the compute budget instructions. Otherwise transactions are split by
+     * size only and no limit is set.
+     * @param instructions - The instructions. Instructions in a nested array are kept in the same transaction, e.g. creating a token account and transferring to it.
+     * @param feePayer - The fee payer, counted as a signer of every transaction.
+     * @param computeUnits - The compute units each instruction uses, or a function estimating them. Optional.
+     * @param maxComputeUnits - The compute unit budget of each transaction. Defaults to 1,400,000.
+     * @param priceInMicroLamports - The compute unit price. If not provided, no price instruction is added.
+     * @param maxTxSize - The size limit of each transaction in bytes. Defaults to 1,232.
+     * @returns Unsigned transactions without a blockhash.
+     */
+    public static pack({
+        instructions,
+        feePayer,
+        computeUnits,
+        maxComputeUnits = MAX_TRANSACTION_COMPUTE_UNITS,
+        priceInMicroLamports,
+        maxTxSize = PACKET_DATA_SIZE
+    }: {
+        instructions: (TransactionInstruction | TransactionInstruction[])[];
+        feePayer: PublicKey;
+        computeUnits?: number | ((instruction: TransactionInstruction) => number);
+        maxComputeUnits?: number;
+        priceInMicroLamports?: number;
+        maxTxSize?: number;
+    }): Transaction[] {
+        const estimate = typeof computeUnits === 'number' ? () => computeUnits : computeUnits;
+        const budgetIxsOf = (units: number) => {
+            const budgetIxs: TransactionInstruction[] = [];
+            if (estimate !== undefined) {
+                budgetIxs.push(ComputeBudgetProgram.setComputeUnitLimit({ units }));
+            }
+            if (priceInMicroLamports !== undefined) {
+                budgetIxs.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priceInMicroLamports }));
+            }
+            return budgetIxs;
+        };
+        const budgetUnits = budgetIxsOf(0).length * COMPUTE_BUDGET_INSTRUCTION_UNITS;
+        const toTransaction = (ixs: TransactionInstruction[], units: number) =>
+            new Transaction({ feePayer }).add(...budgetIxsOf(budgetUnits + units), ...ixs);
+        // the limit instruction has the same size whatever its value, so the size can be checked before the units are known
+        const sizeOf = (ixs: TransactionInstruction[]) => TransactionHelper.getTxSize(toTransaction(ixs, 0), feePayer);
+
+        const transactions: Transaction[] = [];
+        let current: TransactionInstruction[] = [];
+        let currentUnits = 0;
+        for (const group of instructions) {
+            const ixs = Array.isArray(group) ? group : [group];
+            if (ixs.length === 0) continue;
+            const units = estimate !== undefined ? ixs.reduce((total, ix) => total + estimate(ix), 0) : 0;
+            if (budgetUnits + units > maxComputeUnits) {
+                throw new Error(
+                    `Instruction group needs ${budgetUnits + units} compute units, more than the limit of ${maxComputeUnits}`
+                );
+            }
+
+            const fits =
+                budgetUnits + currentUnits + units <= maxComputeUnits && sizeOf([...current, ...ixs]) <= maxTxSize;
+            if (!fits && current.length > 0) {
+                transactions.push(toTransaction(current, currentUnits));
+                current = [];
+                currentUnits = 0;
+            }
+            if (current.length === 0) {
+                const size = sizeOf(ixs);
+                if (size > maxTxSize) {
+                    throw new Error(`Instruction group needs ${size} bytes, more than the limit of ${maxTxSize}`);
+                }
+            }
+            current = current.concat(ixs);
+            currentUnits += units;
+        }
+        if (current.length > 0) {
+            transactions.push(toTransaction(current, currentUnits));
+        }
+        return transactions;
+    }
+
     private logNumberOfIxs = () => this._logger.debug(`instruction count: ${this._instructions.length}`);
 }
+
+/**
+ * The first byte of the data of each compute budget instruction.
+ */
+const COMPUTE_BUDGET_DISCRIMINATORS: { [type in ComputeBudgetInstructionType]: number } = {
+    RequestUnits: 0,
+    RequestHeapFrame: 1,
+    SetComputeUnitLimit: 2,
+    SetComputeUnitPrice: 3
+};
+
+// read from the data instead of decoded, web3.js throws on compute budget instructions it does not know
+function isComputeBudgetIx(ix: TransactionInstruction, type: ComputeBudgetInstructionType): boolean {
+    return ix.programId.equals(ComputeBudgetProgram.programId) && ix.data[0] === COMPUTE_BUDGET_DISCRIMINATORS[type];
+}
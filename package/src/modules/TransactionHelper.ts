@@ -177,7 +177,7 @@ export class TransactionHelper {
     }
 
     /**
-     * Creates a compute budget instruction.
+     * Creates a compute budget instruction setting the compute unit limit.
      * 
      * @param units The number of compute units to request.
      * @returns The compute budget instruction.
@@ -187,13 +187,28 @@ export class TransactionHelper {
     }: { 
         units: number;
     }): TransactionInstruction {
-        const ix = ComputeBudgetProgram.requestUnits({
-            units,
-            additionalFee: 0
+        const ix = ComputeBudgetProgram.setComputeUnitLimit({
+            units
         });
         return ix;
     }
 
+    /**
+     * Creates a compute budget instruction setting the compute unit price, which determines the priority fee.
+     * 
+     * @param microLamports The price per compute unit in micro-lamports, e.g. from `PriorityFeeEstimator.estimate()`.
+     * @returns The compute budget instruction.
+     */
+    public static createComputeUnitPriceIx({ 
+        microLamports 
+    }: { 
+        microLamports: number;
+    }): TransactionInstruction {
+        return ComputeBudgetProgram.setComputeUnitPrice({
+            microLamports
+        });
+    }
+
     /**
      * Checks if a token account exists. Returns true if it does, false if it does not.
      * @param connectionOrConnectionManager The connection or connection manager.
@@ -1,8 +1,25 @@
-import { Transaction, Connection, PublicKey, ConnectionConfig, Commitment, Signer, SendOptions } from '@solana/web3.js';
+import {
+    Transaction,
+    Connection,
+    PublicKey,
+    ConnectionConfig,
+    Commitment,
+    Signer,
+    SendOptions,
+    RpcResponseAndContext,
+    SignatureResult,
+    BlockhashWithExpiryBlockHeight,
+    TransactionConfirmationStatus,
+    TransactionError
+} from '@solana/web3.js';
 import { ILogger } from '../interfaces/ILogger';
 import { IWallet } from '../interfaces/IWallet';
 import { ConnectionManager } from './ConnectionManager';
 import { Logger } from './Logger';
+import { IMetricsSink, METRIC_NAMES } from './Metrics';
+import { sleep } from './utils';
+import { BlockhashExpiredError, parseError, parseTransactionError, SolToolkitError } from './errors';
+import { ISimulationResult, simulateTransaction } from './Simulation';
 import bs58 from 'bs58';
 import fetch from 'node-fetch';
 
@@ -14,11 +31,19 @@ export class TransactionWrapper {
     private _connection: Connection;
     private _logger: ILogger = new Logger('@soltoolkit/TransactionWrapper');
     private _feePayer?: PublicKey;
+    private _metrics?: IMetricsSink;
+    private _blockhash?: BlockhashWithExpiryBlockHeight;
 
-    private constructor(connection: Connection, transaction?: Transaction | Transaction[], feePayer?: PublicKey) {
+    private constructor(
+        connection: Connection,
+        transaction?: Transaction | Transaction[],
+        feePayer?: PublicKey,
+        metrics?: IMetricsSink
+    ) {
         this._transactions = transaction ? (Array.isArray(transaction) ? transaction : [transaction]) : [];
         this._connection = connection;
         this._feePayer = feePayer;
+        this._metrics = metrics;
     }
 
     public static create({
@@ -28,7 +53,8 @@ export class TransactionWrapper {
         connection,
         connectionManager,
         config,
-        changeConn = false
+        changeConn = false,
+        metrics = connectionManager?.metrics
     }: {
         transaction?: Transaction;
         transactions?: Transaction[];
@@ -37,6 +63,7 @@ export class TransactionWrapper {
         connectionManager?: ConnectionManager;
         config?: ConnectionConfig;
         changeConn?: boolean;
+        metrics?: IMetricsSink;
     }): TransactionWrapper {
         var conn: Connection;
 
@@ -45,25 +72,32 @@ export class TransactionWrapper {
         } else if (rpcEndpoint) {
             conn = new Connection(rpcEndpoint, config);
         } else if (connectionManager) {
-            conn = connectionManager.connSync({ changeConn });
+            conn = connectionManager.sendConn({ changeConn });
         } else {
             throw new Error('No connection or rpc endpoint provided');
         }
 
-        return new TransactionWrapper(conn, transaction || transactions);
+        return new TransactionWrapper(conn, transaction || transactions, undefined, metrics);
     }
 
     public async sendAndConfirm({
         serialisedTx,
         maximumRetries = 5,
         commitment = 'max',
-        skipPreflight = false
+        skipPreflight = false,
+        simulate = false
     }: {
         serialisedTx: Uint8Array | Buffer | number[];
         maximumRetries?: number;
         commitment?: Commitment;
         skipPreflight?: boolean;
+        simulate?: boolean;
     }): Promise<string> {
+        if (simulate) {
+            // nothing is sent if the simulation fails
+            await this.simulate({ serialisedTx, throwOnFailure: true });
+        }
+
         var signature: string | undefined;
         var tries = 0;
         var isTransactionConfirmed = false;
@@ -75,15 +109,17 @@ export class TransactionWrapper {
                 signature = await this.sendTx({ serialisedTx, skipPreflight });
                 const result = await this.confirmTx({ signature, commitment });
                 if (result.value.err !== null) {
-                    throw new Error(`RPC failure: ${JSON.stringify(result.value.err)}`);
+                    throw parseTransactionError(result.value.err);
                 }
                 this._logger.debug(result);
                 isTransactionConfirmed = true;
-            } catch (e: any) {
-                if (e.message.includes('RPC failure')) {
-                    throw e;
+            } catch (e) {
+                const error = parseError(e);
+                // the same bytes can never land once their blockhash expired, retrying needs a new blockhash and signature
+                if (!error.retryable || error instanceof BlockhashExpiredError) {
+                    throw error;
                 } else {
-                    this._logger.warn('Transaction failed, retrying...', e);
+                    this._logger.warn('Transaction failed, retrying...', error);
                     tries++;
                 }
             }
@@ -96,8 +132,207 @@ export class TransactionWrapper {
         return signature;
     }
 
+    /**
+     * Simulates a transaction without sending it or spending fees.
+     * @param transaction - The transaction, which does not need to be signed. Defaults to the first transaction of the wrapper.
+     * @param serialisedTx - A serialized transaction to simulate instead.
+     * @param accounts - Accounts to report the balances of before and after the transaction.
+     * @param throwOnFailure - Whether to throw a SimulationFailedError if the transaction would fail. Defaults to false.
+     * @returns The compute units consumed, the balances, and the program logs parsed into a tree per instruction.
+     */
+    public async simulate({
+        transaction = this._transactions[0],
+        serialisedTx,
+        accounts,
+        throwOnFailure = false
+    }: {
+        transaction?: Transaction;
+        serialisedTx?: Uint8Array | Buffer | number[];
+        accounts?: PublicKey[];
+        throwOnFailure?: boolean;
+    } = {}): Promise<ISimulationResult> {
+        const tx = serialisedTx ?? transaction;
+        if (tx === undefined) {
+            throw new Error('No transaction to simulate');
+        }
+        const result = await simulateTransaction({ connection: this._connection, transaction: tx, accounts });
+        this._logger.debug(`simulation consumed ${result.unitsConsumed} compute units`);
+        if (result.error !== undefined && throwOnFailure) {
+            throw result.error;
+        }
+        return result;
+    }
+
+    /**
+     * Sends a signed transaction and rebroadcasts the same bytes until it is confirmed or its blockhash expires.
+     * If a wallet or signers are provided, an expired transaction is signed again with a new blockhash and resent,
+     * up to `maxResigns` times. Retryable errors while sending or checking the status are logged and the transaction is
+     * rebroadcast and checked again, until `maxConsecutiveFailures` checks in a row have failed.
+     * @param transaction - The signed transaction. Defaults to the first transaction of the wrapper.
+     * @param lastValidBlockHeight - The block height the transaction's blockhash expires at. Defaults to that of the blockhash added by `addBlockhashAndFeePayer()`.
+     * @param rebroadcastIntervalMs - How often to rebroadcast and check the status, in milliseconds. Defaults to 2,000.
+     * @param commitment - The status to wait for. Defaults to 'confirmed'.
+     * @param maxResigns - The most times to sign the transaction again after its blockhash expires. Defaults to 0.
+     * @param wallet - Signs the transaction again.
+     * @param signers - Sign the transaction again.
+     * @param skipPreflight - Whether to skip the preflight check on the first send with each blockhash. Defaults to false.
+     * @param maxConsecutiveFailures - The most status checks in a row that may fail before the last error is thrown. Defaults to 10.
+     * @returns The outcome: the signature and slot it landed in, how many times it was sent, and how many blockhashes expired.
+     */
+    public async sendAndRebroadcast({
+        transaction = this._transactions[0],
+        lastValidBlockHeight,
+        rebroadcastIntervalMs = 2_000,
+        commitment = 'confirmed',
+        maxResigns = 0,
+        wallet,
+        signers,
+        skipPreflight = false,
+        maxConsecutiveFailures = 10
+    }: {
+        transaction?: Transaction;
+        lastValidBlockHeight?: number;
+        rebroadcastIntervalMs?: number;
+        commitment?: TransactionConfirmationStatus;
+        maxResigns?: number;
+        wallet?: IWallet;
+        signers?: Signer[];
+        skipPreflight?: boolean;
+        maxConsecutiveFailures?: number;
+    } = {}): Promise<IRebroadcastResult> {
+        if (transaction === undefined || transaction.signature === null) {
+            throw new Error('A signed transaction must be provided');
+        }
+        if (lastValidBlockHeight === undefined && this._blockhash?.blockhash === transaction.recentBlockhash) {
+            lastValidBlockHeight = this._blockhash?.lastValidBlockHeight;
+        }
+        if (lastValidBlockHeight === undefined) {
+            throw new Error('lastValidBlockHeight must be provided if the blockhash was not added by the wrapper');
+        }
+
+        const start = Date.now();
+        let outcome = 'error';
+        const result: IRebroadcastResult = {
+            status: 'expired',
+            signature: '',
+            signatures: [],
+            attempts: 0,
+            expiries: 0
+        };
+        // a block at this height includes every transaction that landed before the blockhash expired
+        const heightCommitment = commitment === 'finalized' ? 'finalized' : 'confirmed';
+        try {
+            for (let resigns = 0; ; resigns++) {
+                const serialisedTx = transaction.serialize();
+                if (transaction.signature === null) {
+                    throw new Error('The wallet did not sign the transaction');
+                }
+                // the signature is known before sending, so a failed send is rebroadcast and checked like any other
+                result.signature = bs58.encode(transaction.signature);
+                result.signatures.push(result.signature);
+                result.attempts++;
+                try {
+                    await this.sendTx({ serialisedTx, skipPreflight });
+                } catch (e) {
+                    const error = parseError(e);
+                    if (!error.retryable) {
+                        throw error;
+                    }
+                    this._logger.warn('Send failed, rebroadcasting...', error);
+                }
+
+                let status = null;
+                let expired = false;
+                let failures = 0;
+                while (status === null && !expired) {
+                    await sleep(rebroadcastIntervalMs);
+                    try {
+                        status = await this.getConfirmedStatus(result.signature, commitment);
+                        if (status !== null) break;
+                        expired = (await this._connection.getBlockHeight(heightCommitment)) > lastValidBlockHeight;
+                        if (expired) {
+                            // it may have landed since the status was checked
+                            status = await this.getConfirmedStatus(result.signature, commitment);
+                        } else {
+                            await this.rebroadcast(serialisedTx);
+                            result.attempts++;
+                        }
+                        failures = 0;
+                    } catch (e) {
+                        const error = parseError(e);
+                        if (!error.retryable || ++failures >= maxConsecutiveFailures) {
+                            throw error;
+                        }
+                        // the transaction can still land, keep polling until its blockhash is known to have expired
+                        this._logger.warn('Failed to check the transaction status, retrying...', error);
+                        expired = false;
+                    }
+                }
+
+                if (status !== null) {
+                    result.status = status.err === null ? 'confirmed' : 'failed';
+                    result.slot = status.slot;
+                    result.err = status.err;
+                    result.error = status.err !== null ? parseTransactionError(status.err) : undefined;
+                    outcome = result.status;
+                    return result;
+                }
+
+                result.expiries++;
+                this._logger.warn(`Blockhash expired before ${result.signature} was confirmed`);
+                if (resigns >= maxResigns || (!wallet && !signers)) {
+                    outcome = result.status;
+                    return result;
+                }
+
+                const latestBlockhash = await this._connection.getLatestBlockhash();
+                this._blockhash = latestBlockhash;
+                lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+                transaction.recentBlockhash = latestBlockhash.blockhash;
+                if (wallet) {
+                    const signed = await wallet.signTransaction(transaction);
+                    if (signed === undefined) {
+                        throw new Error('The wallet did not sign the transaction');
+                    }
+                    transaction = signed;
+                } else if (signers) {
+                    transaction.sign(...signers);
+                }
+            }
+        } finally {
+            this._metrics?.increment(METRIC_NAMES.transactionsConfirmed, { outcome });
+            this._metrics?.observe(METRIC_NAMES.confirmationDuration, Date.now() - start, { outcome });
+        }
+    }
+
+    /**
+     * Returns the status of a transaction once it has reached the commitment, or null if it has not.
+     */
+    private async getConfirmedStatus(
+        signature: string,
+        commitment: TransactionConfirmationStatus
+    ): Promise<{ slot: number; err: TransactionError | null } | null> {
+        const { value } = await this._connection.getSignatureStatuses([signature]);
+        const status = value[0];
+        if (status === null) return null;
+        if (status.err !== null) return { slot: status.slot, err: status.err };
+
+        const reached = CONFIRMATION_LEVELS.indexOf(status.confirmationStatus || 'finalized');
+        return reached >= CONFIRMATION_LEVELS.indexOf(commitment) ? { slot: status.slot, err: null } : null;
+    }
+
+    private async rebroadcast(serialisedTx: Buffer): Promise<void> {
+        try {
+            await this._connection.sendRawTransaction(serialisedTx, { skipPreflight: true, maxRetries: 0 });
+        } catch (e) {
+            this._logger.warn('Rebroadcast failed', e);
+        }
+    }
+
     public async addBlockhashAndFeePayer(feePayer?: PublicKey) {
         const latestBlockhash = await this._connection.getLatestBlockhash();
+        // kept so confirmations wait for the block height this blockhash expires at
+        this._blockhash = latestBlockhash;
         for (const transaction of this._transactions) {
             transaction.recentBlockhash = latestBlockhash.blockhash;
             transaction.feePayer = feePayer || this._feePayer;
@@ -133,10 +368,9 @@ export class TransactionWrapper {
             var signedTx = await wallet.signAllTransactions(txs);
             return signedTx!;
         } else if (signers) {
-            for (const signer of signers) {
-                for (const transaction of txs) {
-                    transaction.sign(signer);
-                }
+            // sign() replaces any existing signatures, so all signers have to sign in one call
+            for (const transaction of txs) {
+                transaction.sign(...signers);
             }
             return txs;
         } else {
@@ -151,9 +385,15 @@ export class TransactionWrapper {
         serialisedTx: Uint8Array | Buffer | number[];
         skipPreflight?: boolean;
     }) {
-        var sig = await this._connection.sendRawTransaction(serialisedTx, {
-            skipPreflight
-        });
+        try {
+            var sig = await this._connection.sendRawTransaction(serialisedTx, {
+                skipPreflight
+            });
+        } catch (e) {
+            this._metrics?.increment(METRIC_NAMES.transactionsSent, { outcome: 'error' });
+            throw parseError(e);
+        }
+        this._metrics?.increment(METRIC_NAMES.transactionsSent, { outcome: 'sent' });
         return sig;
     }
 
@@ -167,17 +407,33 @@ export class TransactionWrapper {
         return await sendTxUsingJito({ serializedTx, region });
     }
 
-    public async confirmTx({ signature, commitment = 'max' }: { signature: string; commitment?: Commitment }) {
-        const latestBlockHash = await this._connection.getLatestBlockhash(commitment);
-
-        return await this._connection.confirmTransaction(
-            {
-                signature: signature,
-                blockhash: latestBlockHash.blockhash,
-                lastValidBlockHeight: latestBlockHash.lastValidBlockHeight
-            },
-            commitment
-        );
+    /**
+     * Waits for a transaction to be confirmed or its blockhash to expire.
+     * @param signature - The signature of the transaction.
+     * @param commitment - The commitment to wait for. Defaults to 'max'.
+     * @param blockhash - The blockhash the transaction was signed with and the block height it expires at. Defaults to the blockhash added by `addBlockhashAndFeePayer()`, or the latest blockhash if none was added.
+     */
+    public async confirmTx({
+        signature,
+        commitment = 'max',
+        blockhash = this._blockhash
+    }: {
+        signature: string;
+        commitment?: Commitment;
+        blockhash?: BlockhashWithExpiryBlockHeight;
+    }) {
+        return await recordConfirmation(this._metrics, async () => {
+            const latestBlockHash = blockhash || (await this._connection.getLatestBlockhash(commitment));
+
+            return await this._connection.confirmTransaction(
+                {
+                    signature: signature,
+                    blockhash: latestBlockHash.blockhash,
+                    lastValidBlockHeight: latestBlockHash.lastValidBlockHeight
+                },
+                commitment
+            );
+        });
     }
 
     public static async confirmTx({
@@ -186,7 +442,9 @@ export class TransactionWrapper {
         signature,
         commitment = 'max',
         changeConn = false,
-        airdrop
+        airdrop,
+        metrics = connectionManager?.metrics,
+        blockhash
     }: {
         connection?: Connection;
         connectionManager?: ConnectionManager;
@@ -194,10 +452,12 @@ export class TransactionWrapper {
         commitment?: Commitment;
         changeConn?: boolean;
         airdrop?: boolean;
+        metrics?: IMetricsSink;
+        blockhash?: BlockhashWithExpiryBlockHeight;
     }) {
         // if connection is not provided, use connection manager
         if (connection === undefined && connectionManager !== undefined) {
-            connection = connectionManager.connSync({ changeConn, airdrop });
+            connection = connectionManager.connForRole(airdrop ? 'airdrop' : 'read', { changeConn });
         } else if (connection === undefined && connectionManager === undefined) {
             throw new Error('No connection or connection manager provided');
         }
@@ -206,19 +466,65 @@ export class TransactionWrapper {
             throw new Error('Connection is undefined');
         }
 
-        const latestBlockHash = await connection.getLatestBlockhash(commitment);
+        const conn = connection;
+        return await recordConfirmation(metrics, async () => {
+            const latestBlockHash = blockhash || (await conn.getLatestBlockhash(commitment));
+
+            return await conn.confirmTransaction(
+                {
+                    signature: signature,
+                    blockhash: latestBlockHash.blockhash,
+                    lastValidBlockHeight: latestBlockHash.lastValidBlockHeight
+                },
+                commitment
+            );
+        });
+    }
+}
 
-        return await connection.confirmTransaction(
-            {
-                signature: signature,
-                blockhash: latestBlockHash.blockhash,
-                lastValidBlockHeight: latestBlockHash.lastValidBlockHeight
-            },
-            commitment
-        );
+/**
+ * Awaits a confirmation, recording its outcome and duration in the metrics sink if one is provided.
+ */
+async function recordConfirmation(
+    metrics: IMetricsSink | undefined,
+    confirm: () => Promise<RpcResponseAndContext<SignatureResult>>
+): Promise<RpcResponseAndContext<SignatureResult>> {
+    const start = Date.now();
+    let outcome = 'error';
+    try {
+        const result = await confirm();
+        outcome = result.value.err === null ? 'confirmed' : 'failed';
+        return result;
+    } finally {
+        metrics?.increment(METRIC_NAMES.transactionsConfirmed, { outcome });
+        metrics?.observe(METRIC_NAMES.confirmationDuration, Date.now() - start, { outcome });
     }
 }
 
+const CONFIRMATION_LEVELS: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+/**
+ * The outcome of `sendAndRebroadcast()`.
+ * @param {'confirmed' | 'failed' | 'expired'} status - Whether the transaction landed successfully, landed with an error, or expired without landing.
+ * @param {string} signature - The signature of the last transaction sent.
+ * @param {string[]} signatures - The signature of the transaction sent with each blockhash.
+ * @param {number=} slot - The slot the transaction landed in.
+ * @param {TransactionError=} err - The error of a failed transaction.
+ * @param {SolToolkitError=} error - The error of a failed transaction, classified by `parseTransactionError()`.
+ * @param {number} attempts - The number of times the transaction was sent, including rebroadcasts.
+ * @param {number} expiries - The number of blockhashes that expired before the transaction landed.
+ */
+export interface IRebroadcastResult {
+    status: 'confirmed' | 'failed' | 'expired';
+    signature: string;
+    signatures: string[];
+    slot?: number;
+    err?: TransactionError | null;
+    error?: SolToolkitError;
+    attempts: number;
+    expiries: number;
+}
+
 export type JitoRegion = 'mainnet' | 'amsterdam' | 'frankfurt' | 'ny' | 'tokyo';
 export const JitoEndpoints = {
     mainnet: 'https://mainnet.block-engine.jito.wtf/api/v1/',
@@ -0,0 +1,297 @@
+import { TransactionError } from '@solana/web3.js';
+
+/**
+ * Base class of the errors thrown by the SDK. `retryable` tells whether trying again may succeed.
+ */
+export class SolToolkitError extends Error {
+    public readonly retryable: boolean;
+    public readonly cause?: unknown;
+
+    constructor(message: string, { retryable = false, cause }: { retryable?: boolean; cause?: unknown } = {}) {
+        super(message);
+        this.name = 'SolToolkitError';
+        this.retryable = retryable;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Timeout error
+ */
+export class TimeoutError extends SolToolkitError {
+    constructor(timeElapsed: number, { cause }: { cause?: unknown } = {}) {
+        super(`Timeout of ${timeElapsed}ms exceeded`, { retryable: true, cause });
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * An RPC request was rejected with a 429. `retryAfterMs` is set if the endpoint said when to try again.
+ */
+export class RateLimitedError extends SolToolkitError {
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, { retryAfterMs, cause }: { retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { retryable: true, cause });
+        this.name = 'RateLimitedError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * An RPC request failed, e.g. with a JSON-RPC error, a 5xx response or a network failure.
+ * Network failures and 5xx responses are retryable.
+ */
+export class RpcError extends SolToolkitError {
+    public readonly code?: number;
+
+    constructor(
+        message: string,
+        { code, retryable, cause }: { code?: number; retryable?: boolean; cause?: unknown } = {}
+    ) {
+        super(message, { retryable, cause });
+        this.name = 'RpcError';
+        this.code = code;
+    }
+}
+
+/**
+ * The blockhash of a transaction expired before it landed. Retryable only by signing the transaction again with a new
+ * blockhash, sending the same bytes again can never land.
+ */
+export class BlockhashExpiredError extends SolToolkitError {
+    constructor(message: string, { cause }: { cause?: unknown } = {}) {
+        super(message, { retryable: true, cause });
+        this.name = 'BlockhashExpiredError';
+    }
+}
+
+/**
+ * A transaction failed, either in simulation or on chain. Sending it again fails the same way.
+ * `transactionError` is the error reported by the node, and `logs` its program logs if known.
+ */
+export class TransactionFailedError extends SolToolkitError {
+    public readonly transactionError?: TransactionError;
+    public readonly logs?: string[];
+
+    constructor(
+        message: string,
+        {
+            transactionError,
+            logs,
+            cause
+        }: { transactionError?: TransactionError; logs?: string[]; cause?: unknown } = {}
+    ) {
+        super(message, { cause });
+        this.name = 'TransactionFailedError';
+        this.transactionError = transactionError;
+        this.logs = logs;
+    }
+}
+
+/**
+ * The fee payer or another account did not have enough lamports or tokens.
+ */
+export class InsufficientFundsError extends TransactionFailedError {
+    constructor(
+        message: string,
+        values: { transactionError?: TransactionError; logs?: string[]; cause?: unknown } = {}
+    ) {
+        super(message, values);
+        this.name = 'InsufficientFundsError';
+    }
+}
+
+/**
+ * An instruction failed. `index` is its position in the transaction, and `code` the custom program error code if
+ * the program returned one.
+ */
+export class InstructionError extends TransactionFailedError {
+    public readonly index: number;
+    public readonly code?: number;
+
+    constructor(
+        message: string,
+        {
+            index,
+            code,
+            transactionError,
+            logs,
+            cause
+        }: { index: number; code?: number; transactionError?: TransactionError; logs?: string[]; cause?: unknown }
+    ) {
+        super(message, { transactionError, logs, cause });
+        this.name = 'InstructionError';
+        this.index = index;
+        this.code = code;
+    }
+}
+
+/**
+ * A transaction failed in simulation, e.g. the preflight check of `sendTransaction`. `index` and `code` are set
+ * if an instruction failed.
+ */
+export class SimulationFailedError extends TransactionFailedError {
+    public readonly index?: number;
+    public readonly code?: number;
+
+    constructor(
+        message: string,
+        {
+            index,
+            code,
+            transactionError,
+            logs,
+            cause
+        }: { index?: number; code?: number; transactionError?: TransactionError; logs?: string[]; cause?: unknown } = {}
+    ) {
+        super(message, { transactionError, logs, cause });
+        this.name = 'SimulationFailedError';
+        this.index = index;
+        this.code = code;
+    }
+}
+
+const INSUFFICIENT_FUNDS =
+    /insufficient (funds|lamports)|InsufficientFunds|Attempt to debit an account but found no record of a prior credit/i;
+const BLOCKHASH_EXPIRED = /Blockhash not found|BlockhashNotFound|block height exceeded/i;
+// web3.js reports HTTP errors as `${status} ${statusText}: ${body}`, and logs rate limits as `Server responded with ${status}`
+const HTTP_STATUS = /^(?:Server responded with )?([1-5]\d\d) /;
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const NETWORK_FAILURE =
+    /fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|timed out|Circuit breaker of .* is half-open/i;
+
+/**
+ * Classifies an error thrown while sending or confirming a transaction, e.g. by web3.js.
+ * @param error - The error.
+ * @returns The error as a SolToolkitError subclass, keeping the original as `cause`. SolToolkitErrors are returned unchanged.
+ */
+export function parseError(error: unknown): SolToolkitError {
+    if (error instanceof SolToolkitError) return error;
+
+    const messageProperty = getProperty(error, 'message');
+    const message = typeof messageProperty === 'string' && messageProperty !== '' ? messageProperty : String(error);
+    const logsProperty = getProperty(error, 'logs');
+    const logs = Array.isArray(logsProperty) ? logsProperty.map(String) : undefined;
+    const codeProperty = getProperty(error, 'code');
+    const code = typeof codeProperty === 'number' ? codeProperty : undefined;
+    // matched by name, the error may come from another copy of web3.js
+    const name = getProperty(error, 'name');
+
+    if (name === 'TransactionExpiredTimeoutError') {
+        const seconds = /not confirmed in ([\d.]+) seconds/.exec(message);
+        return new TimeoutError(seconds ? Number(seconds[1]) * 1_000 : 0, { cause: error });
+    }
+    if (name === 'TransactionExpiredBlockheightExceededError' || BLOCKHASH_EXPIRED.test(message)) {
+        return new BlockhashExpiredError(message, { cause: error });
+    }
+    const status = getHttpStatus(error, message);
+    if (status === 429) {
+        return new RateLimitedError(message, { cause: error });
+    }
+    if (INSUFFICIENT_FUNDS.test(message) || logs?.some((log) => INSUFFICIENT_FUNDS.test(log))) {
+        return new InsufficientFundsError(message, { logs, cause: error });
+    }
+    if (logs !== undefined || /simulation failed/i.test(message)) {
+        const instruction = /Error processing Instruction (\d+)(?:: custom program error: (0x[0-9a-f]+))?/i.exec(
+            message
+        );
+        return new SimulationFailedError(message, {
+            index: instruction ? Number(instruction[1]) : undefined,
+            code: instruction?.[2] !== undefined ? parseInt(instruction[2], 16) : undefined,
+            logs,
+            cause: error
+        });
+    }
+    // the JSON-RPC code or the HTTP status tell what went wrong, only errors without either are matched by their message
+    const retryable =
+        status !== undefined
+            ? RETRYABLE_STATUSES.includes(status)
+            : code === undefined && NETWORK_FAILURE.test(message);
+    return new RpcError(message, { code, retryable, cause: error });
+}
+
+/**
+ * Classifies the error of a failed transaction, as found in `SignatureResult.err` or a simulation result.
+ * @param transactionError - The error reported by the node.
+ * @param logs - The program logs of the transaction, if known.
+ * @returns A BlockhashExpiredError, or a TransactionFailedError or subclass.
+ */
+export function parseTransactionError(
+    transactionError: TransactionError,
+    logs?: string[]
+): TransactionFailedError | BlockhashExpiredError {
+    const message = `Transaction failed: ${JSON.stringify(transactionError)}`;
+    if (transactionError === 'BlockhashNotFound') {
+        return new BlockhashExpiredError(message);
+    }
+
+    const instruction = getInstructionError(transactionError);
+    if (instruction !== undefined) {
+        if (instruction.reason === 'InsufficientFunds' || logs?.some((log) => INSUFFICIENT_FUNDS.test(log))) {
+            return new InsufficientFundsError(message, { transactionError, logs });
+        }
+        return new InstructionError(message, {
+            index: instruction.index,
+            code: instruction.code,
+            transactionError,
+            logs
+        });
+    }
+
+    const reason = typeof transactionError === 'string' ? transactionError : Object.keys(transactionError ?? {})[0];
+    if (reason === 'InsufficientFundsForFee' || reason === 'InsufficientFundsForRent') {
+        return new InsufficientFundsError(message, { transactionError, logs });
+    }
+    return new TransactionFailedError(message, { transactionError, logs });
+}
+
+/**
+ * Creates the error of a failed simulation, with the classification from `parseTransactionError()` as its `cause`.
+ * @param transactionError - The error reported by the node.
+ * @param logs - The program logs of the simulation.
+ */
+export function parseSimulationError(transactionError: TransactionError, logs: string[] = []): SimulationFailedError {
+    const instruction = getInstructionError(transactionError);
+    return new SimulationFailedError(`Simulation failed: ${JSON.stringify(transactionError)}\n${logs.join('\n')}`, {
+        index: instruction?.index,
+        code: instruction?.code,
+        transactionError,
+        logs,
+        cause: parseTransactionError(transactionError, logs)
+    });
+}
+
+/**
+ * Reads the `InstructionError` of a transaction error, e.g. `{ InstructionError: [1, { Custom: 6000 }] }`.
+ * @returns The index of the failed instruction, the reason, and the custom program error code if there is one.
+ */
+function getInstructionError(
+    transactionError: TransactionError
+): { index: number; reason: unknown; code?: number } | undefined {
+    const instructionError = getProperty(transactionError, 'InstructionError');
+    if (!Array.isArray(instructionError) || typeof instructionError[0] !== 'number') return undefined;
+    const [index, reason] = instructionError;
+    const custom = getProperty(reason, 'Custom');
+    return { index, reason, code: typeof custom === 'number' ? custom : undefined };
+}
+
+/**
+ * Returns the HTTP status of a failed request, from the `status` or `statusCode` of the error if it has one, or the
+ * start of a web3.js error message.
+ */
+function getHttpStatus(error: unknown, message: string): number | undefined {
+    for (const key of ['status', 'statusCode']) {
+        const status = getProperty(error, key);
+        if (typeof status === 'number') return status;
+    }
+    const match = HTTP_STATUS.exec(message);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Returns a property of a value of unknown type, or undefined if it is not an object with that property.
+ */
+function getProperty(value: unknown, key: string): unknown {
+    return typeof value === 'object' && value !== null ? Reflect.get(value, key) : undefined;
+}
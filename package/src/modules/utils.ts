@@ -1,21 +1,52 @@
-/**
- * Timeout error
- */
-export class TimeoutError extends Error {
-  constructor(timeElapsed: number) {
-    super(`Timeout of ${timeElapsed}ms exceeded`);
-    this.name = 'TimeoutError';
-  }
-}
+import { parseError, RateLimitedError, RpcError, TimeoutError } from './errors';
+
+// kept here for existing imports, the error classes live in errors.ts
+export { TimeoutError };
 
 /**
  * Rejects a promise after a given time. Useful for timeouts in async functions.
  * Rejection is a TimeoutError.
  * @param time Time in milliseconds
+ * @param unref If true, the timer will not keep the process alive, e.g. when racing it against a request
  * @returns Promise that rejects after the given time
  */
-export function rejectAfter(time: number): Promise<never> {
+export function rejectAfter(time: number, unref: boolean = false): Promise<never> {
   return new Promise((_, reject) => {
-    setTimeout(() => reject(new TimeoutError(time)), time);
+    const timer = setTimeout(() => reject(new TimeoutError(time)), time);
+    if (unref && typeof timer.unref === 'function') timer.unref();
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Resolves after a given time.
+ * @param time Time in milliseconds
+ */
+export function sleep(time: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, time));
+}
+
+/**
+ * Returns the nearest-rank percentile of the values.
+ * @param values The values, in any order
+ * @param percentile The percentile, from 0 to 100
+ * @returns The percentile, or undefined if there are no values
+ */
+export function percentile(values: number[], percentile: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(Math.ceil((percentile / 100) * sorted.length) - 1, 0)];
+}
+
+/**
+ * Returns true if an error thrown by a web3.js RPC call is worth retrying on another endpoint,
+ * i.e. the request timed out, failed at the network level, or was answered with a 429 or a 5xx.
+ * Expired blockhashes and confirmation timeouts are not, another endpoint fails the same way.
+ * @param error The error thrown by the RPC call
+ * @returns True if the call can be retried
+ */
+export function isRetryableRpcError(error: unknown): boolean {
+  const parsed = parseError(error);
+  // a TimeoutError converted by parseError() is web3.js giving up on a confirmation, only our own request timeouts count
+  const isRequestTimeout = parsed instanceof TimeoutError && parsed === error;
+  return (parsed instanceof RateLimitedError || parsed instanceof RpcError || isRequestTimeout) && parsed.retryable;
+}
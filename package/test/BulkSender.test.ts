@@ -0,0 +1,141 @@
+import {
+    BlockhashWithExpiryBlockHeight,
+    Keypair,
+    SendTransactionError,
+    SystemProgram,
+    Transaction,
+    TransactionExpiredBlockheightExceededError
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BulkSender } from '../src/modules/BulkSender';
+import { ConnectionManager } from '../src/modules/ConnectionManager';
+
+function newBlockhash(lastValidBlockHeight: number): BlockhashWithExpiryBlockHeight {
+    return { blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight };
+}
+
+function mockConnection() {
+    const sent: Transaction[] = [];
+    const connection = {
+        sent,
+        getLatestBlockhash: jest.fn().mockResolvedValue(newBlockhash(100)),
+        getBlockHeight: jest.fn().mockResolvedValue(50),
+        sendRawTransaction: jest.fn(async (bytes: Buffer) => {
+            const transaction = Transaction.from(bytes);
+            sent.push(transaction);
+            return bs58.encode(transaction.signature!);
+        }),
+        confirmTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } })
+    };
+    const connectionManager = {
+        sendConn: () => connection,
+        readConn: () => connection,
+        metrics: undefined
+    } as unknown as ConnectionManager;
+    return { connection, connectionManager };
+}
+
+describe('BulkSender', () => {
+    const payer = Keypair.generate();
+    const authority = Keypair.generate();
+    const transfer = () =>
+        new Transaction().add(
+            SystemProgram.transfer({ fromPubkey: authority.publicKey, toPubkey: payer.publicKey, lamports: 1 })
+        );
+
+    it('signs with every signer', async () => {
+        const { connection, connectionManager } = mockConnection();
+        const sender = BulkSender.create({
+            connectionManager,
+            feePayer: payer.publicKey,
+            signers: [payer, authority],
+            retryDelayMs: 0
+        });
+
+        const results = await sender.send({ transactions: [transfer(), transfer()] });
+
+        expect(results.map((result) => result.status)).toEqual(['confirmed', 'confirmed']);
+        expect(connection.sent).toHaveLength(2);
+        for (const transaction of connection.sent) {
+            expect(transaction.verifySignatures()).toBe(true);
+        }
+    });
+
+    it('resends the same transaction while its blockhash is valid', async () => {
+        const { connection, connectionManager } = mockConnection();
+        connection.sendRawTransaction.mockRejectedValueOnce(
+            new SendTransactionError('failed to send transaction: Blockhash not found', [])
+        );
+        const sender = BulkSender.create({
+            connectionManager,
+            feePayer: payer.publicKey,
+            signers: [payer, authority],
+            retryDelayMs: 0
+        });
+
+        const [result] = await sender.send({ transactions: [transfer()] });
+
+        expect(result).toMatchObject({ status: 'confirmed', attempts: 2 });
+        expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(1);
+        const [first, second] = connection.sendRawTransaction.mock.calls.map(([bytes]) => bs58.encode(bytes));
+        expect(second).toBe(first);
+    });
+
+    it('signs again with a new blockhash once the old one expired', async () => {
+        const { connection, connectionManager } = mockConnection();
+        connection.getLatestBlockhash.mockResolvedValueOnce(newBlockhash(40));
+        connection.confirmTransaction.mockRejectedValueOnce(new TransactionExpiredBlockheightExceededError('sig'));
+        const sender = BulkSender.create({
+            connectionManager,
+            feePayer: payer.publicKey,
+            signers: [payer, authority],
+            retryDelayMs: 0
+        });
+
+        const [result] = await sender.send({ transactions: [transfer()] });
+
+        expect(result).toMatchObject({ status: 'confirmed', attempts: 2 });
+        expect(connection.getLatestBlockhash).toHaveBeenCalledTimes(2);
+        expect(connection.sent[1].recentBlockhash).not.toBe(connection.sent[0].recentBlockhash);
+        expect(result.signature).toBe(bs58.encode(connection.sent[1].signature!));
+    });
+
+    it('does not retry errors that are not retryable', async () => {
+        const { connection, connectionManager } = mockConnection();
+        connection.confirmTransaction.mockResolvedValueOnce({
+            context: { slot: 1 },
+            value: { err: { InstructionError: [0, { Custom: 1 }] } }
+        });
+        const sender = BulkSender.create({
+            connectionManager,
+            feePayer: payer.publicKey,
+            signers: [payer, authority],
+            retryDelayMs: 0
+        });
+
+        const [result] = await sender.send({ transactions: [transfer()] });
+
+        expect(result).toMatchObject({ status: 'failed', attempts: 1 });
+        expect(connection.sendRawTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps sending when onResult throws', async () => {
+        const { connection, connectionManager } = mockConnection();
+        const sender = BulkSender.create({
+            connectionManager,
+            feePayer: payer.publicKey,
+            signers: [payer, authority],
+            concurrency: 1,
+            retryDelayMs: 0
+        });
+        const onResult = jest.fn(() => {
+            throw new Error('progress bar closed');
+        });
+
+        const results = await sender.send({ transactions: [transfer(), transfer()], onResult });
+
+        expect(results.map((result) => result.status)).toEqual(['confirmed', 'confirmed']);
+        expect(onResult).toHaveBeenCalledTimes(2);
+        expect(connection.sent).toHaveLength(2);
+    });
+});
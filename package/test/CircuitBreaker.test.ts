@@ -0,0 +1,85 @@
+import { CircuitBreaker } from '../src/modules/CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    function openBreaker(): CircuitBreaker {
+        const breaker = CircuitBreaker.create({ failureThreshold: 2, cooldownMs: 1_000 });
+        breaker.recordFailure(new Error('first'));
+        breaker.recordFailure(new Error('second'));
+        return breaker;
+    }
+
+    it('opens after consecutive failures', () => {
+        const breaker = CircuitBreaker.create({ failureThreshold: 2 });
+        breaker.recordFailure('first');
+        breaker.recordSuccess();
+        breaker.recordFailure('second');
+        expect(breaker.state).toBe('closed');
+
+        breaker.recordFailure(new Error('third'));
+        expect(breaker.state).toBe('open');
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.tryRequest()).toBe(false);
+        expect(breaker.errorCount).toBe(3);
+        expect(breaker.lastError).toBe('third');
+    });
+
+    it('becomes half-open after the cool-down', () => {
+        const breaker = openBreaker();
+        jest.advanceTimersByTime(999);
+        expect(breaker.state).toBe('open');
+        jest.advanceTimersByTime(1);
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('allows a single trial request while half-open', () => {
+        const breaker = openBreaker();
+        jest.advanceTimersByTime(1_000);
+
+        expect(breaker.tryRequest()).toBe(true);
+        expect(breaker.tryRequest()).toBe(false);
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.state).toBe('half-open');
+    });
+
+    it('closes when the trial succeeds', () => {
+        const breaker = openBreaker();
+        jest.advanceTimersByTime(1_000);
+        breaker.tryRequest();
+        breaker.recordSuccess();
+
+        expect(breaker.state).toBe('closed');
+        expect(breaker.tryRequest()).toBe(true);
+        expect(breaker.tryRequest()).toBe(true);
+    });
+
+    it('re-opens when the trial fails', () => {
+        const breaker = openBreaker();
+        jest.advanceTimersByTime(1_000);
+        breaker.tryRequest();
+        breaker.recordFailure(new Error('still down'));
+
+        expect(breaker.state).toBe('open');
+        jest.advanceTimersByTime(1_000);
+        expect(breaker.tryRequest()).toBe(true);
+    });
+
+    it('lets the next request be the trial once the trial is released', () => {
+        const breaker = openBreaker();
+        jest.advanceTimersByTime(1_000);
+        breaker.tryRequest();
+        breaker.releaseTrial();
+
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.tryRequest()).toBe(true);
+        expect(breaker.tryRequest()).toBe(false);
+    });
+});
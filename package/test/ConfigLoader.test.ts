@@ -0,0 +1,125 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigError, loadConfig, loadConfigFromEnv, validateConfig } from '../src/modules/ConfigLoader';
+
+function issuesOf(fn: () => unknown): string[] {
+    try {
+        fn();
+    } catch (e) {
+        if (e instanceof ConfigError) return e.issues;
+        throw e;
+    }
+    return [];
+}
+
+describe('validateConfig', () => {
+    it('accepts valid options', () => {
+        const options = {
+            network: 'devnet',
+            mode: 'round-robin',
+            endpoints: ['https://a.example.com', { url: 'https://b.example.com', maxRps: 5, roles: ['send'] }],
+            rateLimit: { maxRps: 10, maxConcurrent: 2 }
+        };
+        expect(validateConfig(options)).toBe(options);
+    });
+
+    it('lists every issue found', () => {
+        const issues = issuesOf(() =>
+            validateConfig({ mode: 'fast', commitment: 'soon', latencyAlpha: 2, endpoint: 'ftp://a.example.com' })
+        );
+        expect(issues).toHaveLength(5);
+        expect(issues[0]).toMatch(/"network" is required/);
+    });
+
+    it('rejects rate limits that would never grant a request', () => {
+        const issues = issuesOf(() =>
+            validateConfig({
+                network: 'devnet',
+                endpoints: [{ url: 'https://a.example.com', maxRps: 0, maxConcurrent: 0, weight: 0 }],
+                rateLimit: { maxRps: 0, maxConcurrent: -1 }
+            })
+        );
+        expect(issues).toEqual([
+            '"rateLimit.maxRps" must be a positive number; got 0',
+            '"rateLimit.maxConcurrent" must be a positive number; got -1',
+            '"endpoints[0].maxRps" must be a positive number; got 0',
+            '"endpoints[0].maxConcurrent" must be a positive number; got 0'
+        ]);
+    });
+
+    it('rejects a non-positive health check interval', () => {
+        expect(issuesOf(() => validateConfig({ network: 'devnet', healthCheck: { intervalMs: 0 } }))).toEqual([
+            '"healthCheck.intervalMs" must be a positive number; got 0'
+        ]);
+    });
+});
+
+describe('loadConfigFromEnv', () => {
+    it('reads prefixed variables and converts their types', () => {
+        expect(
+            loadConfigFromEnv({
+                SOLTOOLKIT_NETWORK: 'devnet',
+                SOLTOOLKIT_ENDPOINTS: 'https://a.example.com, https://b.example.com,',
+                SOLTOOLKIT_VERBOSE: 'true',
+                SOLTOOLKIT_MAX_SLOT_LAG: '10',
+                SOLTOOLKIT_HEALTH_CHECK_INTERVAL_MS: '5000',
+                OTHER_NETWORK: 'testnet'
+            })
+        ).toEqual({
+            network: 'devnet',
+            endpoints: ['https://a.example.com', 'https://b.example.com'],
+            verbose: true,
+            maxSlotLag: 10,
+            healthCheck: { enabled: true, intervalMs: 5_000 }
+        });
+    });
+
+    it('keeps invalid values so validation reports them', () => {
+        expect(loadConfigFromEnv({ SOLTOOLKIT_VERBOSE: 'maybe', SOLTOOLKIT_TRANSACTION_TIMEOUT: 'long' })).toEqual({
+            verbose: 'maybe',
+            transactionTimeout: 'long'
+        });
+    });
+});
+
+describe('loadConfig', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'soltoolkit-config-'));
+    const file = join(dir, 'soltoolkit.yaml');
+    writeFileSync(
+        file,
+        [
+            'commitment: confirmed',
+            'profiles:',
+            '  devnet:',
+            '    endpoint: https://api.devnet.solana.com',
+            '  staging:',
+            '    network: testnet',
+            '    mode: fastest'
+        ].join('\n')
+    );
+
+    afterAll(() => rmSync(dir, { recursive: true }));
+
+    it('selects the profile named after the network', () => {
+        expect(loadConfig({ file, env: { SOLTOOLKIT_NETWORK: 'devnet' } })).toEqual({
+            commitment: 'confirmed',
+            network: 'devnet',
+            endpoint: 'https://api.devnet.solana.com'
+        });
+    });
+
+    it('lets environment variables override the file', () => {
+        expect(loadConfig({ file, profile: 'staging', env: { SOLTOOLKIT_MODE: 'single' } })).toEqual({
+            commitment: 'confirmed',
+            network: 'testnet',
+            mode: 'single'
+        });
+    });
+
+    it('throws for a missing profile', () => {
+        expect(issuesOf(() => loadConfig({ file, profile: 'prod', env: {} }))).toEqual([
+            'Profile "prod" not found (available profiles: devnet, staging)'
+        ]);
+    });
+});
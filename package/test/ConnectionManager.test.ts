@@ -0,0 +1,616 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { ConnectionManager, IConnectionManagerConstructor } from '../src/modules/ConnectionManager';
+import { InMemoryMetrics, METRIC_NAMES, toPrometheusText } from '../src/modules/Metrics';
+
+interface IMockEndpoint {
+    url: string;
+    // the methods called, in order
+    calls: string[];
+    // results by method, an Error is sent as a 500 response
+    results: { [method: string]: unknown };
+    // JSON-RPC errors by method
+    errors: { [method: string]: { code: number; message: string } };
+    close(): Promise<void>;
+}
+
+async function mockEndpoint(): Promise<IMockEndpoint> {
+    const calls: string[] = [];
+    const results: { [method: string]: unknown } = {
+        getLatestBlockhash: {
+            context: { slot: 1 },
+            value: { blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }
+        },
+        getSlot: 5
+    };
+    const errors: { [method: string]: { code: number; message: string } } = {};
+
+    const server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            const { id, method } = JSON.parse(body);
+            calls.push(method);
+            const result = results[method];
+            if (result instanceof Error) {
+                res.statusCode = 500;
+                res.end(result.message);
+                return;
+            }
+            res.setHeader('Content-Type', 'application/json');
+            const error = errors[method];
+            res.end(
+                JSON.stringify(error ? { jsonrpc: '2.0', id, error } : { jsonrpc: '2.0', id, result: result ?? null })
+            );
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        calls,
+        results,
+        errors,
+        close: () => {
+            server.closeAllConnections();
+            return new Promise((resolve) => server.close(() => resolve()));
+        }
+    };
+}
+
+describe('ConnectionManager', () => {
+    let endpoints: IMockEndpoint[];
+
+    beforeEach(async () => {
+        endpoints = [await mockEndpoint(), await mockEndpoint()];
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        ConnectionManager.resetAll();
+        await Promise.all(endpoints.map((endpoint) => endpoint.close()));
+    });
+
+    describe('getInstance', () => {
+        const values = () => ({ network: 'devnet' as const, endpoint: endpoints[0].url });
+
+        it('shares the initialization between concurrent callers', async () => {
+            const [first, second] = await Promise.all([
+                ConnectionManager.getInstance(values()),
+                ConnectionManager.getInstance(values())
+            ]);
+
+            expect(first).toBe(second);
+            expect(ConnectionManager.getInstanceSync()).toBe(first);
+            expect(endpoints[0].calls.filter((method) => method === 'getLatestBlockhash')).toHaveLength(1);
+        });
+
+        it('does not register an instance reset while it was initializing', async () => {
+            const pending = ConnectionManager.getInstance(values());
+            ConnectionManager.reset();
+            const instance = await pending;
+
+            expect(ConnectionManager.hasInstance()).toBe(false);
+            const rebuilt = await ConnectionManager.getInstance(values());
+            expect(rebuilt).not.toBe(instance);
+            expect(ConnectionManager.getInstanceSync()).toBe(rebuilt);
+            instance.dispose();
+        });
+    });
+
+    describe('health check', () => {
+        async function create(values: Partial<IConnectionManagerConstructor> = {}): Promise<ConnectionManager> {
+            return await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: endpoints.map((endpoint) => endpoint.url),
+                ...values
+            });
+        }
+
+        it('moves the connection away from an endpoint after the configured failures', async () => {
+            const cm = await create({ healthCheck: { unhealthyThreshold: 2 } });
+            const [first, second] = endpoints;
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+
+            await cm.runHealthCheck();
+            expect(cm.connSync({}).rpcEndpoint).toBe(first.url);
+
+            const summary = await cm.runHealthCheck();
+            expect(summary.map((endpoint) => [endpoint.consecutiveFailures, endpoint.isHealthy])).toEqual([
+                [2, false],
+                [0, true]
+            ]);
+            expect(cm.connSync({}).rpcEndpoint).toBe(second.url);
+            cm.dispose();
+        });
+
+        it('counts failures from zero again once the endpoint answers', async () => {
+            const cm = await create({ healthCheck: { unhealthyThreshold: 2 } });
+            const [first] = endpoints;
+            const blockhash = first.results.getLatestBlockhash;
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+            await cm.runHealthCheck();
+            first.results.getLatestBlockhash = blockhash;
+            await cm.runHealthCheck();
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+
+            const [summary] = await cm.runHealthCheck();
+            expect(summary).toMatchObject({ consecutiveFailures: 1, isHealthy: true });
+            expect(cm.connSync({}).rpcEndpoint).toBe(first.url);
+            cm.dispose();
+        });
+
+        it('starts the loop only when enabled', async () => {
+            const cm = await create();
+            expect(cm.isHealthCheckRunning()).toBe(false);
+
+            const enabled = await create({ name: 'enabled', healthCheck: { enabled: true } });
+            expect(enabled.isHealthCheckRunning()).toBe(true);
+            enabled.stopHealthCheck();
+            expect(enabled.isHealthCheckRunning()).toBe(false);
+            cm.dispose();
+            enabled.dispose();
+        });
+    });
+
+    describe('slot lag', () => {
+        const blockhashAt = (slot: number) => ({
+            context: { slot },
+            value: { blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }
+        });
+
+        it('measures the lag behind the highest slot of the probe', async () => {
+            const [behind, current] = endpoints;
+            behind.results.getLatestBlockhash = blockhashAt(40);
+            current.results.getLatestBlockhash = blockhashAt(100);
+
+            const summary = await ConnectionManager.getEndpointsSummary(
+                endpoints.map((endpoint) => endpoint.url),
+                undefined,
+                { includeVersion: false }
+            );
+
+            expect(summary.map((endpoint) => endpoint.slotLag)).toEqual([60, 0]);
+            expect(ConnectionManager.filterBySlotLag(summary, 50).map((endpoint) => endpoint.endpoint)).toEqual([
+                current.url
+            ]);
+            expect(ConnectionManager.filterBySlotLag(summary, 60)).toHaveLength(2);
+        });
+
+        it('falls back to every endpoint if all of them are lagging', () => {
+            const summary = [10, 20].map((slotLag, i) => ({ endpoint: endpoints[i].url, slotLag, isReachable: true }));
+
+            expect(ConnectionManager.filterBySlotLag(summary, 5)).toEqual(summary);
+        });
+
+        it('moves the connection away from a lagging endpoint', async () => {
+            const cm = await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: endpoints.map((endpoint) => endpoint.url),
+                maxSlotLag: 10
+            });
+            const [behind, current] = endpoints;
+            expect(cm.connSync({}).rpcEndpoint).toBe(behind.url);
+
+            behind.results.getLatestBlockhash = blockhashAt(40);
+            current.results.getLatestBlockhash = blockhashAt(100);
+            await cm.runHealthCheck();
+
+            expect(cm.connSync({}).rpcEndpoint).toBe(current.url);
+            expect(cm.connSync({ changeConn: true }).rpcEndpoint).toBe(current.url);
+            cm.dispose();
+        });
+    });
+
+    describe('events', () => {
+        async function create(values: Partial<IConnectionManagerConstructor> = {}): Promise<ConnectionManager> {
+            return await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: endpoints.map((endpoint) => endpoint.url),
+                healthCheck: { unhealthyThreshold: 1 },
+                ...values
+            });
+        }
+
+        it('reports an endpoint going down and the connection moving away from it', async () => {
+            const cm = await create();
+            const [first, second] = endpoints;
+            const events: string[] = [];
+            cm.on('endpointDown', ({ endpoint, reason }) => events.push(`down ${endpoint} ${reason}`))
+                .on('summaryUpdated', (summary) => events.push(`summary ${summary.length}`))
+                .on('endpointChanged', ({ previous, current, reason }) =>
+                    events.push(`changed ${previous} ${current} ${reason}`)
+                );
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+
+            await cm.runHealthCheck();
+
+            expect(events).toEqual([
+                `down ${first.url} unhealthy`,
+                'summary 2',
+                `changed ${first.url} ${second.url} unavailable`
+            ]);
+            cm.dispose();
+        });
+
+        it('reports an endpoint recovering only once it was down', async () => {
+            const cm = await create({ healthCheck: { unhealthyThreshold: 2 } });
+            const [first] = endpoints;
+            const blockhash = first.results.getLatestBlockhash;
+            const down = jest.fn();
+            const recovered = jest.fn();
+            cm.on('endpointDown', down).on('endpointRecovered', recovered);
+
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+            await cm.runHealthCheck();
+            first.results.getLatestBlockhash = blockhash;
+            await cm.runHealthCheck();
+            expect(down).not.toHaveBeenCalled();
+            expect(recovered).not.toHaveBeenCalled();
+
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+            await cm.runHealthCheck();
+            await cm.runHealthCheck();
+            first.results.getLatestBlockhash = blockhash;
+            await cm.runHealthCheck();
+
+            expect(down).toHaveBeenCalledTimes(1);
+            expect(recovered).toHaveBeenCalledTimes(1);
+            expect(recovered.mock.calls[0][0]).toMatchObject({
+                endpoint: first.url,
+                reason: 'healthy',
+                summary: { endpoint: first.url, isHealthy: true }
+            });
+            cm.dispose();
+        });
+
+        it('reports when every endpoint is unreachable', async () => {
+            const cm = await create();
+            const unreachable = jest.fn();
+            const changed = jest.fn();
+            cm.on('allEndpointsUnreachable', unreachable).on('endpointChanged', changed);
+            for (const endpoint of endpoints) endpoint.results.getLatestBlockhash = new Error('Internal Server Error');
+
+            await cm.runHealthCheck();
+
+            expect(unreachable).toHaveBeenCalledTimes(1);
+            expect(unreachable.mock.calls[0][0]).toMatchObject({ reason: 'unreachable' });
+            expect(unreachable.mock.calls[0][0].summary).toHaveLength(2);
+            expect(changed).not.toHaveBeenCalled();
+            cm.dispose();
+        });
+
+        it('reports the endpoint selected by the mode', async () => {
+            const cm = await create({ mode: 'round-robin' });
+            const [first, second] = endpoints;
+            const changed = jest.fn();
+            cm.on('endpointChanged', changed);
+
+            cm.connSync({ changeConn: true });
+
+            expect(changed).toHaveBeenCalledWith(expect.objectContaining({ current: second.url, reason: 'mode' }));
+            expect(changed.mock.calls[0][0].previous).toBe(first.url);
+            cm.dispose();
+        });
+
+        it('stops calling a listener removed with off() and keeps going when a listener throws', async () => {
+            const cm = await create();
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            const removed = jest.fn();
+            const listener = jest.fn();
+            cm.on('summaryUpdated', removed)
+                .on('summaryUpdated', () => {
+                    throw new Error('listener failed');
+                })
+                .on('summaryUpdated', listener)
+                .off('summaryUpdated', removed);
+
+            await expect(cm.runHealthCheck()).resolves.toHaveLength(2);
+
+            expect(removed).not.toHaveBeenCalled();
+            expect(listener).toHaveBeenCalledTimes(1);
+            cm.dispose();
+        });
+    });
+
+    describe('roles', () => {
+        async function create(values: Partial<IConnectionManagerConstructor> = {}): Promise<ConnectionManager> {
+            const [reader, sender] = endpoints;
+            return await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: [
+                    { url: reader.url, roles: ['read', 'subscribe'] },
+                    { url: sender.url, roles: ['send'] }
+                ],
+                healthCheck: { unhealthyThreshold: 1 },
+                ...values
+            });
+        }
+
+        it('routes each role to the endpoints serving it', async () => {
+            const cm = await create();
+            const [reader, sender] = endpoints;
+
+            expect(cm.readConn().rpcEndpoint).toBe(reader.url);
+            expect(cm.subscribeConn().rpcEndpoint).toBe(reader.url);
+            expect(cm.sendConn().rpcEndpoint).toBe(sender.url);
+            // the connection of a role is kept between calls
+            expect(cm.sendConn()).toBe(cm.sendConn());
+            cm.dispose();
+        });
+
+        it('serves every role but airdrops from endpoints without roles', async () => {
+            const [reader, sender] = endpoints;
+            const cm = await create({ endpoints: [{ url: reader.url, roles: ['read'] }, sender.url] });
+
+            expect(cm.sendConn().rpcEndpoint).toBe(sender.url);
+            expect(cm.readConn().rpcEndpoint).toBe(reader.url);
+            expect(cm.connForRole('airdrop').rpcEndpoint).toBe(ConnectionManager.getDefaultEndpoint('devnet'));
+            cm.dispose();
+        });
+
+        it('throws if no endpoint serves the role', async () => {
+            const [reader, sender] = endpoints;
+            const cm = await create({
+                endpoints: [
+                    { url: reader.url, roles: ['read'] },
+                    { url: sender.url, roles: ['send'] }
+                ]
+            });
+
+            expect(() => cm.subscribeConn()).toThrow('No endpoint configured for role "subscribe"');
+            cm.dispose();
+        });
+
+        it('moves a role away from an unavailable endpoint', async () => {
+            const [first, second] = endpoints;
+            const cm = await create({
+                endpoints: [
+                    { url: first.url, roles: ['send'] },
+                    { url: second.url, roles: ['read', 'send'] }
+                ]
+            });
+            expect(cm.sendConn().rpcEndpoint).toBe(first.url);
+
+            first.results.getLatestBlockhash = new Error('Internal Server Error');
+            await cm.runHealthCheck();
+
+            expect(cm.sendConn().rpcEndpoint).toBe(second.url);
+            cm.dispose();
+        });
+
+        it('uses the current connection if no endpoint has roles', async () => {
+            const cm = await create({ endpoints: endpoints.map((endpoint) => endpoint.url) });
+
+            expect(cm.readConn()).toBe(cm.connSync({}));
+            expect(cm.sendConn()).toBe(cm.connSync({}));
+            cm.dispose();
+        });
+    });
+
+    describe('weighted mode', () => {
+        it('picks endpoints in proportion to their weight', async () => {
+            const [light, heavy] = endpoints;
+            const cm = await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'weighted',
+                endpoints: [
+                    { url: light.url, weight: 1 },
+                    { url: heavy.url, weight: 3 }
+                ]
+            });
+            const random = jest.spyOn(Math, 'random');
+
+            random.mockReturnValue(0.2);
+            expect(cm.connSync({ changeConn: true }).rpcEndpoint).toBe(light.url);
+            random.mockReturnValue(0.3);
+            expect(cm.connSync({ changeConn: true }).rpcEndpoint).toBe(heavy.url);
+            cm.dispose();
+        });
+
+        it('never picks an endpoint with a weight of 0', async () => {
+            const [unused, used] = endpoints;
+            const cm = await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'weighted',
+                endpoints: [unused.url, used.url],
+                endpointWeights: { [unused.url]: 0 }
+            });
+
+            for (let i = 0; i < 10; i++) {
+                expect(cm.connSync({ changeConn: true }).rpcEndpoint).toBe(used.url);
+            }
+            cm.dispose();
+        });
+    });
+
+    describe('quorumRead', () => {
+        async function create(values: Partial<IConnectionManagerConstructor> = {}): Promise<ConnectionManager> {
+            endpoints.push(await mockEndpoint());
+            return await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: endpoints.map((endpoint) => endpoint.url),
+                ...values
+            });
+        }
+
+        it('returns the value agreed on by the majority', async () => {
+            const cm = await create();
+            const [a, b, c] = endpoints;
+            c.results.getSlot = 6;
+
+            const result = await cm.quorumRead((conn) => conn.getSlot());
+
+            expect(result).toEqual({ value: 5, agreed: [a.url, b.url], disagreed: [c.url], failed: [] });
+            cm.dispose();
+        });
+
+        it('throws if not enough endpoints agree', async () => {
+            const cm = await create();
+            const [, b, c] = endpoints;
+            b.results.getSlot = new Error('Internal Server Error');
+            c.results.getSlot = 6;
+
+            await expect(cm.quorumRead((conn) => conn.getSlot())).rejects.toThrow('Quorum not reached');
+            cm.dispose();
+        });
+
+        it('ignores the context of RPC responses', async () => {
+            const cm = await create();
+            endpoints.forEach((endpoint, i) => {
+                endpoint.results.getBalance = { context: { slot: 10 + i }, value: 1_000 };
+            });
+
+            const result = await cm.quorumRead((conn) => conn.getBalanceAndContext(Keypair.generate().publicKey));
+
+            expect(result.value.value).toBe(1_000);
+            expect(result.agreed).toHaveLength(3);
+            cm.dispose();
+        });
+
+        it('reads every endpoint when caching is enabled', async () => {
+            const cm = await create({ cache: { enabled: true } });
+            const [a, b, c] = endpoints;
+            a.results.getBalance = { context: { slot: 10 }, value: 1_000 };
+            b.results.getBalance = { context: { slot: 10 }, value: 1_000 };
+            c.results.getBalance = { context: { slot: 10 }, value: 2_000 };
+
+            const publicKey = Keypair.generate().publicKey;
+            const result = await cm.quorumRead((conn) => conn.getBalance(publicKey));
+
+            expect(result).toMatchObject({ value: 1_000, agreed: [a.url, b.url], disagreed: [c.url] });
+            for (const endpoint of endpoints) {
+                expect(endpoint.calls).toContain('getBalance');
+            }
+            cm.dispose();
+        });
+    });
+
+    describe('failoverConn', () => {
+        async function create(): Promise<ConnectionManager> {
+            return await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: endpoints.map((endpoint) => endpoint.url)
+            });
+        }
+
+        it('retries a failed call on the next endpoint', async () => {
+            const cm = await create();
+            const [first, second] = endpoints;
+            first.results.getSlot = new Error('Internal Server Error');
+
+            await expect(cm.failoverConn().getSlot()).resolves.toBe(5);
+            expect(first.calls).toContain('getSlot');
+            expect(second.calls).toContain('getSlot');
+            expect(cm.connSync({}).rpcEndpoint).toBe(second.url);
+            cm.dispose();
+        });
+
+        it('does not retry errors that are not retryable', async () => {
+            const cm = await create();
+            const [first, second] = endpoints;
+            first.errors.getSlot = { code: -32602, message: 'Invalid params' };
+            second.results.getSlot = 6;
+
+            await expect(cm.failoverConn().getSlot()).rejects.toThrow('Invalid params');
+            expect(second.calls).not.toContain('getSlot');
+            cm.dispose();
+        });
+
+        it('does not fail over when the blockhash expired', async () => {
+            const cm = await create();
+            const [first, second] = endpoints;
+            const listener = jest.fn();
+            cm.on('endpointChanged', listener);
+            first.errors.getSignatureStatuses = { code: -32002, message: 'Blockhash not found' };
+
+            await expect(cm.failoverConn().getSignatureStatuses(['sig'])).rejects.toThrow('Blockhash not found');
+            expect(second.calls).not.toContain('getSignatureStatuses');
+            expect(listener).not.toHaveBeenCalled();
+            cm.dispose();
+        });
+
+        it('records requests, errors and endpoint switches in the metrics sink', async () => {
+            const metrics = InMemoryMetrics.create();
+            const cm = await ConnectionManager.create({
+                network: 'devnet',
+                mode: 'first',
+                endpoints: [
+                    { url: endpoints[0].url, label: 'first' },
+                    { url: endpoints[1].url, label: 'second' }
+                ],
+                metrics
+            });
+            endpoints[0].results.getSlot = new Error('Internal Server Error');
+
+            await cm.failoverConn().getSlot();
+
+            for (const endpoint of ['first', 'second']) {
+                expect(metrics.getCounter(METRIC_NAMES.rpcRequests, { endpoint, method: 'getSlot' })).toBe(1);
+            }
+            const labels = { endpoint: 'first', method: 'getSlot', type: 'server_error' };
+            expect(metrics.getCounter(METRIC_NAMES.rpcErrors, labels)).toBe(1);
+            expect(metrics.getCounter(METRIC_NAMES.endpointSwitches, { from: 'first', to: 'second' })).toBe(1);
+            expect(toPrometheusText(metrics)).toContain(
+                'soltoolkit_rpc_request_duration_ms_count{endpoint="second",method="getSlot"} 1'
+            );
+            cm.dispose();
+        });
+
+        it('returns the results of synchronous members as they are', async () => {
+            const cm = await create();
+            jest.spyOn(Connection.prototype, 'getSlot').mockReturnValue(7 as never);
+
+            expect(cm.failoverConn().getSlot()).toBe(7);
+            expect(cm.failoverConn().rpcEndpoint).toBe(endpoints[0].url);
+            cm.dispose();
+        });
+    });
+
+    describe('getEndpointsSummary', () => {
+        it('probes with getHealth', async () => {
+            const [healthy, behind] = endpoints;
+            healthy.results.getHealth = 'ok';
+            behind.errors.getHealth = { code: -32005, message: 'Node is behind by 42 slots' };
+
+            const summary = await ConnectionManager.getEndpointsSummary(
+                endpoints.map((endpoint) => endpoint.url),
+                undefined,
+                { method: 'getHealth', includeVersion: false }
+            );
+
+            expect(summary.map((endpoint) => endpoint.isReachable)).toEqual([true, false]);
+            expect(healthy.calls).toEqual(['getHealth']);
+        });
+
+        it('discovers capabilities only when enabled', async () => {
+            const [archive, pruned] = endpoints;
+            for (const endpoint of endpoints) {
+                endpoint.errors.getAssetsByOwner = { code: -32601, message: 'Method not found' };
+                endpoint.results.getRecentPrioritizationFees = [];
+            }
+            archive.results.getFirstAvailableBlock = 0;
+            pruned.results.getFirstAvailableBlock = 1_000;
+            pruned.errors.getRecentPrioritizationFees = { code: -32601, message: 'Method not found' };
+            const urls = endpoints.map((endpoint) => endpoint.url);
+
+            const [summary] = await ConnectionManager.getEndpointsSummary(urls, undefined, { includeVersion: false });
+            expect(summary.capabilities).toBeUndefined();
+            expect(archive.calls).toEqual(['getLatestBlockhash']);
+
+            const discovered = await ConnectionManager.getEndpointsSummary(urls, undefined, {
+                includeVersion: false,
+                capabilities: true
+            });
+            expect(discovered.map((endpoint) => endpoint.capabilities)).toEqual([['archive', 'priority-fees'], []]);
+            expect(discovered.map((endpoint) => endpoint.firstAvailableBlock)).toEqual([0, 1_000]);
+        });
+    });
+});
@@ -0,0 +1,156 @@
+import {
+    AddressLookupTableAccount,
+    AddressLookupTableInstruction,
+    AddressLookupTableProgram,
+    Keypair,
+    PublicKey,
+    Transaction
+} from '@solana/web3.js';
+import { ConnectionManager } from '../src/modules/ConnectionManager';
+import { LookupTableManager } from '../src/modules/LookupTableManager';
+import { TransactionWrapper } from '../src/modules/TransactionWrapper';
+
+function tableOf(key: PublicKey, addresses: PublicKey[]): AddressLookupTableAccount {
+    return new AddressLookupTableAccount({
+        key,
+        state: {
+            deactivationSlot: BigInt('18446744073709551615'),
+            lastExtendedSlot: 10,
+            lastExtendedSlotStartIndex: 0,
+            addresses
+        }
+    });
+}
+
+function addressesOf(count: number): PublicKey[] {
+    return Array.from({ length: count }, () => Keypair.generate().publicKey);
+}
+
+describe('LookupTableManager', () => {
+    const authority = Keypair.generate();
+    const lookupTable = Keypair.generate().publicKey;
+    let tableAddresses: PublicKey[];
+    // every transaction sent, in order
+    let sent: Transaction[];
+
+    function mockConnection() {
+        return {
+            getSlot: jest.fn().mockResolvedValue(20),
+            getLatestBlockhash: jest
+                .fn()
+                .mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+            getAddressLookupTable: jest.fn(async (key: PublicKey) => ({
+                context: { slot: 20 },
+                value: tableOf(key, tableAddresses)
+            }))
+        };
+    }
+
+    // reads and sends go to different endpoints, the read endpoint never sees the table
+    function create() {
+        const read = { ...mockConnection(), getAddressLookupTable: jest.fn().mockResolvedValue({ value: null }) };
+        const send = mockConnection();
+        const connectionManager = { readConn: () => read, sendConn: () => send } as unknown as ConnectionManager;
+        const manager = LookupTableManager.create({
+            connectionManager,
+            authority: authority.publicKey,
+            signers: [authority]
+        });
+        return { manager, read, send };
+    }
+
+    const extended = () =>
+        sent.map(
+            (transaction) =>
+                AddressLookupTableInstruction.decodeExtendLookupTable(transaction.instructions[0]).addresses
+        );
+
+    beforeEach(() => {
+        tableAddresses = [];
+        sent = [];
+        jest.spyOn(TransactionWrapper.prototype, 'sendAndConfirm').mockImplementation(async ({ serialisedTx }) => {
+            const transaction = Transaction.from(serialisedTx);
+            sent.push(transaction);
+            return `signature ${sent.length}`;
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('creates a table owned by the authority at a finalized slot', async () => {
+        const { manager, read } = create();
+
+        const { lookupTable: created, signature } = await manager.createTable();
+
+        expect(read.getSlot).toHaveBeenCalledWith('finalized');
+        expect(signature).toBe('signature 1');
+        const params = AddressLookupTableInstruction.decodeCreateLookupTable(sent[0].instructions[0]);
+        expect(params).toMatchObject({ authority: authority.publicKey, payer: authority.publicKey });
+        expect(Number(params.recentSlot)).toBe(20);
+        const [, expected] = AddressLookupTableProgram.createLookupTable({
+            authority: authority.publicKey,
+            payer: authority.publicKey,
+            recentSlot: 20
+        });
+        expect(created).toEqual(expected);
+    });
+
+    it('extends a table in chunks, skipping addresses already in it and duplicates', async () => {
+        const { manager, send } = create();
+        const [existing, ...addresses] = addressesOf(5);
+        tableAddresses = [existing];
+
+        const signatures = await manager.extendTable({
+            lookupTable,
+            addresses: [existing, addresses[0], ...addresses, addresses[3]],
+            chunkSize: 3
+        });
+
+        expect(signatures).toEqual(['signature 1', 'signature 2']);
+        expect(extended()).toEqual([addresses.slice(0, 3), addresses.slice(3)]);
+        // the table is read from the endpoint that confirmed the writes
+        expect(send.getAddressLookupTable).toHaveBeenCalledWith(lookupTable, { commitment: 'confirmed' });
+    });
+
+    it('sends nothing if the addresses would not fit in the table', async () => {
+        const { manager } = create();
+        tableAddresses = addressesOf(250);
+
+        await expect(manager.extendTable({ lookupTable, addresses: addressesOf(7) })).rejects.toThrow(
+            'would hold 257 addresses, at most 256 fit'
+        );
+        expect(sent).toHaveLength(0);
+
+        await expect(manager.extendTable({ lookupTable, addresses: addressesOf(6) })).resolves.toHaveLength(1);
+    });
+
+    it('does not create a table for more addresses than fit in it', async () => {
+        const { manager } = create();
+
+        await expect(manager.createTableWithAddresses({ addresses: addressesOf(257) })).rejects.toThrow(
+            '257 addresses do not fit in a lookup table'
+        );
+        expect(sent).toHaveLength(0);
+    });
+
+    it('creates a table with addresses and waits until they can be used', async () => {
+        const { manager, send } = create();
+        const addresses = addressesOf(3);
+        // the addresses can be used from the slot after the table was last extended
+        send.getSlot.mockResolvedValueOnce(10).mockResolvedValue(11);
+        send.getAddressLookupTable.mockImplementation(async (key: PublicKey) => ({
+            context: { slot: 20 },
+            value: tableOf(key, sent.length > 1 ? addresses : [])
+        }));
+
+        const table = await manager.createTableWithAddresses({ addresses });
+
+        expect(table.state.addresses).toEqual(addresses);
+        expect(AddressLookupTableInstruction.decodeExtendLookupTable(sent[1].instructions[0]).addresses).toEqual(
+            addresses
+        );
+        expect(send.getSlot).toHaveBeenCalledTimes(2);
+    });
+});
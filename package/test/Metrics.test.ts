@@ -0,0 +1,70 @@
+import { InMemoryMetrics, toPrometheusText } from '../src/modules/Metrics';
+
+describe('InMemoryMetrics', () => {
+    it('keeps a counter per set of labels, in any order', () => {
+        const metrics = InMemoryMetrics.create();
+
+        metrics.increment('requests', { endpoint: 'a', method: 'getSlot' });
+        metrics.increment('requests', { method: 'getSlot', endpoint: 'a' }, 2);
+        metrics.increment('requests', { endpoint: 'b', method: 'getSlot' });
+
+        expect(metrics.getCounter('requests', { endpoint: 'a', method: 'getSlot' })).toBe(3);
+        expect(metrics.getCounter('requests', { endpoint: 'b', method: 'getSlot' })).toBe(1);
+        expect(metrics.getCounter('requests', { endpoint: 'c', method: 'getSlot' })).toBe(0);
+    });
+
+    it('counts observations in every bucket they fit in', () => {
+        const metrics = InMemoryMetrics.create({ buckets: [100, 10] });
+
+        metrics.observe('duration', 5);
+        metrics.observe('duration', 50);
+        metrics.observe('duration', 500);
+
+        expect(metrics.getHistogram('duration')).toEqual({
+            name: 'duration',
+            labels: {},
+            buckets: [
+                { le: 10, count: 1 },
+                { le: 100, count: 2 }
+            ],
+            sum: 555,
+            count: 3
+        });
+    });
+});
+
+describe('toPrometheusText', () => {
+    it('formats counters and histograms', () => {
+        const metrics = InMemoryMetrics.create({ buckets: [10, 100] });
+        metrics.increment('soltoolkit_rpc_requests_total', { endpoint: 'a' });
+        metrics.increment('soltoolkit_rpc_requests_total', { endpoint: 'b' }, 2);
+        metrics.observe('soltoolkit_rpc_request_duration_ms', 42, { endpoint: 'a' });
+
+        expect(toPrometheusText(metrics)).toBe(
+            [
+                '# TYPE soltoolkit_rpc_requests_total counter',
+                'soltoolkit_rpc_requests_total{endpoint="a"} 1',
+                'soltoolkit_rpc_requests_total{endpoint="b"} 2',
+                '# TYPE soltoolkit_rpc_request_duration_ms histogram',
+                'soltoolkit_rpc_request_duration_ms_bucket{endpoint="a",le="10"} 0',
+                'soltoolkit_rpc_request_duration_ms_bucket{endpoint="a",le="100"} 1',
+                'soltoolkit_rpc_request_duration_ms_bucket{endpoint="a",le="+Inf"} 1',
+                'soltoolkit_rpc_request_duration_ms_sum{endpoint="a"} 42',
+                'soltoolkit_rpc_request_duration_ms_count{endpoint="a"} 1',
+                ''
+            ].join('\n')
+        );
+    });
+
+    it('escapes label values', () => {
+        const metrics = InMemoryMetrics.create();
+        metrics.increment('errors', { message: 'say "hi"\n\\' });
+
+        expect(toPrometheusText(metrics)).toBe('# TYPE errors counter\nerrors{message="say \\"hi\\"\\n\\\\"} 1\n');
+    });
+
+    it('returns an empty string without metrics', () => {
+        expect(toPrometheusText(InMemoryMetrics.create())).toBe('');
+        expect(toPrometheusText({ counters: [], histograms: [] })).toBe('');
+    });
+});
@@ -0,0 +1,55 @@
+import { Connection, Keypair, SystemProgram } from '@solana/web3.js';
+import { PriorityFeeEstimator } from '../src/modules/PriorityFeeEstimator';
+
+function mockConnection(fees: number[]) {
+    return {
+        getRecentPrioritizationFees: jest
+            .fn()
+            .mockResolvedValue(fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee })))
+    };
+}
+
+describe('PriorityFeeEstimator', () => {
+    const fees = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150, 160, 170, 180, 190];
+
+    it('picks the percentile of the level', async () => {
+        const connection = mockConnection(fees) as unknown as Connection;
+        const estimator = PriorityFeeEstimator.create({ connection });
+
+        expect(await estimator.estimate()).toBe(90);
+        expect(await estimator.estimate({ level: 'low' })).toBe(40);
+        expect(await estimator.estimate({ level: 'veryHigh' })).toBe(180);
+        expect(await estimator.estimate({ percentile: 100 })).toBe(190);
+    });
+
+    it('clamps the estimate', async () => {
+        const connection = mockConnection(fees) as unknown as Connection;
+        const estimator = PriorityFeeEstimator.create({ connection, minMicroLamports: 50, maxMicroLamports: 150 });
+
+        expect(await estimator.estimate({ level: 'low' })).toBe(50);
+        expect(await estimator.estimate({ level: 'veryHigh' })).toBe(150);
+    });
+
+    it('returns the floor without recent fees', async () => {
+        const connection = mockConnection([]) as unknown as Connection;
+        const estimator = PriorityFeeEstimator.create({ connection, minMicroLamports: 1_000 });
+
+        expect(await estimator.estimate()).toBe(1_000);
+    });
+
+    it('looks up fees for the writable accounts once each', async () => {
+        const mock = mockConnection(fees);
+        const estimator = PriorityFeeEstimator.create({ connection: mock as unknown as Connection });
+        const from = Keypair.generate().publicKey;
+        const to = Keypair.generate().publicKey;
+        const instructions = [
+            SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: 1 }),
+            SystemProgram.transfer({ fromPubkey: to, toPubkey: from, lamports: 1 })
+        ];
+
+        await estimator.estimate({ instructions, accounts: [from] });
+
+        const [{ lockedWritableAccounts }] = mock.getRecentPrioritizationFees.mock.calls[0];
+        expect(lockedWritableAccounts.map(String)).toEqual([from.toBase58(), to.toBase58()]);
+    });
+});
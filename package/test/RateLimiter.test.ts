@@ -0,0 +1,96 @@
+import { RateLimiter, parseRetryAfter } from '../src/modules/RateLimiter';
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('rejects limits that would never grant a request', () => {
+        expect(() => RateLimiter.create({ maxRps: 0 })).toThrow('maxRps must be greater than 0');
+        expect(() => RateLimiter.create({ maxRps: -1 })).toThrow('maxRps must be greater than 0');
+        expect(() => RateLimiter.create({ maxConcurrent: 0 })).toThrow('maxConcurrent must be greater than 0');
+        expect(() => RateLimiter.create({ maxRps: NaN })).toThrow('maxRps must be greater than 0');
+    });
+
+    it('grants a burst of maxRps requests, then one per interval', async () => {
+        const limiter = RateLimiter.create({ maxRps: 2 });
+        let granted = 0;
+        for (let i = 0; i < 4; i++) {
+            void limiter.acquire().then(() => {
+                granted++;
+                limiter.release();
+            });
+        }
+
+        await Promise.resolve();
+        expect(granted).toBe(2);
+        expect(limiter.queueDepth).toBe(2);
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(granted).toBe(3);
+        await jest.advanceTimersByTimeAsync(500);
+        expect(granted).toBe(4);
+        expect(limiter.queueDepth).toBe(0);
+    });
+
+    it('caps the requests in flight', async () => {
+        const limiter = RateLimiter.create({ maxConcurrent: 2 });
+        const resolvers: (() => void)[] = [];
+        const results = [1, 2, 3].map((n) =>
+            limiter.schedule(() => new Promise<number>((resolve) => resolvers.push(() => resolve(n))))
+        );
+
+        await Promise.resolve();
+        expect(limiter.inFlight).toBe(2);
+        expect(limiter.queueDepth).toBe(1);
+
+        resolvers[0]();
+        await results[0];
+        await Promise.resolve();
+        expect(limiter.inFlight).toBe(2);
+        expect(limiter.queueDepth).toBe(0);
+
+        resolvers[1]();
+        resolvers[2]();
+        expect(await Promise.all(results)).toEqual([1, 2, 3]);
+        expect(limiter.inFlight).toBe(0);
+    });
+
+    it('releases the slot when the scheduled function throws', async () => {
+        const limiter = RateLimiter.create({ maxConcurrent: 1 });
+        await expect(limiter.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+        expect(limiter.inFlight).toBe(0);
+        await expect(limiter.schedule(() => Promise.resolve('ok'))).resolves.toBe('ok');
+    });
+
+    it('holds requests while paused', async () => {
+        const limiter = RateLimiter.create();
+        limiter.pauseFor(1_000);
+        let granted = false;
+        void limiter.acquire().then(() => (granted = true));
+
+        await jest.advanceTimersByTimeAsync(999);
+        expect(granted).toBe(false);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(granted).toBe(true);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('parses seconds and HTTP dates', () => {
+        jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+        expect(parseRetryAfter('2')).toBe(2_000);
+        expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT')).toBe(5_000);
+        jest.useRealTimers();
+    });
+
+    it('returns undefined for missing or invalid values', () => {
+        expect(parseRetryAfter(null)).toBeUndefined();
+        expect(parseRetryAfter(' ')).toBeUndefined();
+        expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+});
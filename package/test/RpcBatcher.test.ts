@@ -0,0 +1,129 @@
+import { createResponse, IJsonRpcRequest } from '../src/modules/JsonRpc';
+import { RpcBatcher } from '../src/modules/RpcBatcher';
+
+function request(id: number, method: string, params: unknown[] = []): IJsonRpcRequest {
+    return { jsonrpc: '2.0', id, method, params };
+}
+
+function enqueue(batcher: RpcBatcher, req: IJsonRpcRequest): Promise<any> {
+    return batcher
+        .enqueue('http://rpc', { method: 'POST', body: JSON.stringify(req) }, req)
+        .then((response) => response.json());
+}
+
+describe('RpcBatcher', () => {
+    it('sends the requests made in the same tick as one batch', async () => {
+        const send = jest.fn(async (_input: any, init: any) => {
+            const requests: IJsonRpcRequest[] = JSON.parse(init.body);
+            // answer out of order, results are matched by id
+            return createResponse(
+                requests.reverse().map((req) => ({ jsonrpc: '2.0', id: req.id, result: req.method }))
+            );
+        });
+        const batcher = RpcBatcher.create(send);
+
+        const results = await Promise.all([
+            enqueue(batcher, request(1, 'getSlot')),
+            enqueue(batcher, request(2, 'getBlockHeight'))
+        ]);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(results).toEqual([
+            { jsonrpc: '2.0', id: 1, result: 'getSlot' },
+            { jsonrpc: '2.0', id: 2, result: 'getBlockHeight' }
+        ]);
+    });
+
+    it('combines account reads into getMultipleAccounts', async () => {
+        const send = jest.fn(async (_input: any, init: any) => {
+            const [req]: IJsonRpcRequest[] = JSON.parse(init.body);
+            return createResponse([
+                {
+                    jsonrpc: '2.0',
+                    id: req.id,
+                    result: { context: { slot: 1 }, value: [{ lamports: 5 }, null] }
+                }
+            ]);
+        });
+        const batcher = RpcBatcher.create(send);
+
+        const results = await Promise.all([
+            enqueue(batcher, request(1, 'getBalance', ['a', { commitment: 'confirmed' }])),
+            enqueue(batcher, request(2, 'getBalance', ['b', { commitment: 'confirmed' }]))
+        ]);
+
+        const [sent] = JSON.parse(send.mock.calls[0][1].body);
+        expect(sent.method).toBe('getMultipleAccounts');
+        expect(sent.params[0]).toEqual(['a', 'b']);
+        expect(results.map((result) => [result.id, result.result.value])).toEqual([
+            [1, 5],
+            [2, 0]
+        ]);
+    });
+
+    it('returns an error for a malformed getMultipleAccounts result', async () => {
+        const send = jest.fn(async (_input: any, init: any) => {
+            const [req]: IJsonRpcRequest[] = JSON.parse(init.body);
+            return createResponse([{ jsonrpc: '2.0', id: req.id, result: { context: { slot: 1 } } }]);
+        });
+        const batcher = RpcBatcher.create(send);
+
+        const results = await Promise.all([
+            enqueue(batcher, request(1, 'getBalance', ['a'])),
+            enqueue(batcher, request(2, 'getBalance', ['b']))
+        ]);
+
+        expect(results.map((result) => [result.id, result.error?.code])).toEqual([
+            [1, -32603],
+            [2, -32603]
+        ]);
+    });
+
+    it('sends the requests one by one if the endpoint does not support batches', async () => {
+        const send = jest.fn(async (_input: any, init: any) => {
+            const body = JSON.parse(init.body);
+            return Array.isArray(body)
+                ? createResponse({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' } })
+                : createResponse({ jsonrpc: '2.0', id: body.id, result: body.method });
+        });
+        const batcher = RpcBatcher.create(send);
+
+        const results = await Promise.all([
+            enqueue(batcher, request(1, 'getSlot')),
+            enqueue(batcher, request(2, 'getBlockHeight'))
+        ]);
+
+        expect(send).toHaveBeenCalledTimes(3);
+        expect(results.map((result) => result.result)).toEqual(['getSlot', 'getBlockHeight']);
+    });
+
+    it('passes HTTP errors to every request', async () => {
+        const send = jest.fn(async () =>
+            createResponse('Too Many Requests', { status: 429, statusText: 'Too Many Requests' })
+        );
+        const batcher = RpcBatcher.create(send);
+
+        const responses = await Promise.all(
+            [request(1, 'getSlot'), request(2, 'getBlockHeight')].map((req) =>
+                batcher.enqueue('http://rpc', { body: JSON.stringify(req) }, req)
+            )
+        );
+
+        expect(responses.map((response) => response.status)).toEqual([429, 429]);
+    });
+
+    it('splits batches at maxBatchSize', async () => {
+        const send = jest.fn(async (_input: any, init: any) => {
+            const body = JSON.parse(init.body);
+            const requests: IJsonRpcRequest[] = Array.isArray(body) ? body : [body];
+            const results = requests.map((req) => ({ jsonrpc: '2.0', id: req.id, result: req.id }));
+            return createResponse(Array.isArray(body) ? results : results[0]);
+        });
+        const batcher = RpcBatcher.create(send, { maxBatchSize: 2 });
+
+        const results = await Promise.all([1, 2, 3].map((id) => enqueue(batcher, request(id, 'getSlot'))));
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(results.map((result) => result.result)).toEqual([1, 2, 3]);
+    });
+});
@@ -0,0 +1,103 @@
+import { createResponse, IJsonRpcRequest } from '../src/modules/JsonRpc';
+import { RpcCache } from '../src/modules/RpcCache';
+
+function request(id: number, method = 'getBalance', params: unknown[] = ['a']): IJsonRpcRequest {
+    return { jsonrpc: '2.0', id, method, params };
+}
+
+describe('RpcCache', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('reuses a result until it expires', async () => {
+        jest.useFakeTimers();
+        const cache = RpcCache.create({ ttlMs: 1_000 });
+        const dispatch = jest.fn(async () => createResponse({ jsonrpc: '2.0', id: 1, result: 5 }));
+
+        await cache.fetch('http://rpc', request(1), dispatch);
+        const cached = await cache.fetch('http://rpc', request(2), dispatch);
+        expect(dispatch).toHaveBeenCalledTimes(1);
+        expect(await cached.json()).toEqual({ jsonrpc: '2.0', id: 2, result: 5 });
+
+        jest.advanceTimersByTime(1_000);
+        await cache.fetch('http://rpc', request(3), dispatch);
+        expect(dispatch).toHaveBeenCalledTimes(2);
+    });
+
+    it('keys entries by method and params', async () => {
+        const cache = RpcCache.create();
+        const dispatch = jest.fn(async () => createResponse({ jsonrpc: '2.0', id: 1, result: 5 }));
+
+        await cache.fetch('http://rpc', request(1, 'getBalance', ['a']), dispatch);
+        await cache.fetch('http://rpc', request(2, 'getBalance', ['b']), dispatch);
+        await cache.fetch('http://rpc', request(3, 'getBalance', ['a', { commitment: 'finalized' }]), dispatch);
+
+        expect(dispatch).toHaveBeenCalledTimes(3);
+        expect(cache.size).toBe(3);
+    });
+
+    it('does not share results between endpoints', async () => {
+        const cache = RpcCache.create();
+        const dispatch = jest.fn(async () => createResponse({ jsonrpc: '2.0', id: 1, result: 5 }));
+
+        await cache.fetch('http://a', request(1), dispatch);
+        await cache.fetch('http://b', request(2), dispatch);
+
+        expect(dispatch).toHaveBeenCalledTimes(2);
+    });
+
+    it('shares a request in flight', async () => {
+        const cache = RpcCache.create();
+        let respond!: () => void;
+        const dispatch = jest.fn(
+            () =>
+                new Promise<Response>((resolve) => {
+                    respond = () => resolve(createResponse({ jsonrpc: '2.0', id: 1, result: 5 }));
+                })
+        );
+
+        const first = cache.fetch('http://rpc', request(1), dispatch);
+        const second = cache.fetch('http://rpc', request(2), dispatch);
+        respond();
+
+        expect((await (await second).json()).result).toBe(5);
+        expect((await (await first).json()).result).toBe(5);
+        expect(dispatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache errors', async () => {
+        const cache = RpcCache.create();
+        const dispatch = jest
+            .fn()
+            .mockResolvedValueOnce(
+                createResponse({ jsonrpc: '2.0', id: 1, error: { code: -32005, message: 'Node is behind' } })
+            )
+            .mockResolvedValueOnce(createResponse('Service Unavailable', { status: 503 }))
+            .mockRejectedValueOnce(new Error('fetch failed'))
+            .mockResolvedValue(createResponse({ jsonrpc: '2.0', id: 4, result: 5 }));
+
+        expect((await (await cache.fetch('http://rpc', request(1), dispatch)).json()).error.code).toBe(-32005);
+        expect((await cache.fetch('http://rpc', request(2), dispatch)).status).toBe(503);
+        await expect(cache.fetch('http://rpc', request(3), dispatch)).rejects.toThrow('fetch failed');
+        expect(cache.size).toBe(0);
+
+        expect((await (await cache.fetch('http://rpc', request(4), dispatch)).json()).result).toBe(5);
+        expect(dispatch).toHaveBeenCalledTimes(4);
+    });
+
+    it('evicts the oldest entries first', async () => {
+        const cache = RpcCache.create({ maxEntries: 2 });
+        const dispatch = jest.fn(async () => createResponse({ jsonrpc: '2.0', id: 1, result: 5 }));
+
+        for (const address of ['a', 'b', 'c']) {
+            await cache.fetch('http://rpc', request(1, 'getBalance', [address]), dispatch);
+        }
+        expect(cache.size).toBe(2);
+
+        await cache.fetch('http://rpc', request(2, 'getBalance', ['c']), dispatch);
+        expect(dispatch).toHaveBeenCalledTimes(3);
+        await cache.fetch('http://rpc', request(3, 'getBalance', ['a']), dispatch);
+        expect(dispatch).toHaveBeenCalledTimes(4);
+    });
+});
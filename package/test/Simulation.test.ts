@@ -0,0 +1,120 @@
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { SimulationFailedError } from '../src/modules/errors';
+import { parseLogs, simulateTransaction } from '../src/modules/Simulation';
+
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const ATA = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+const SYSTEM = '11111111111111111111111111111111';
+
+describe('parseLogs', () => {
+    it('builds a tree of invocations', () => {
+        const instructions = parseLogs([
+            `Program ${ATA} invoke [1]`,
+            'Program log: Create',
+            `Program ${SYSTEM} invoke [2]`,
+            `Program ${SYSTEM} success`,
+            `Program ${TOKEN} invoke [2]`,
+            'Program log: Instruction: InitializeAccount3',
+            `Program ${TOKEN} consumed 1405 of 194178 compute units`,
+            `Program ${TOKEN} success`,
+            `Program ${ATA} consumed 7221 of 200000 compute units`,
+            `Program ${ATA} success`,
+            `Program ${TOKEN} invoke [1]`,
+            `Program ${TOKEN} failed: custom program error: 0x1`
+        ]);
+
+        expect(instructions).toHaveLength(2);
+        const [create, transfer] = instructions;
+        expect(create).toMatchObject({ index: 0, programId: ATA, depth: 1, logs: ['Program log: Create'] });
+        expect(create).toMatchObject({ unitsConsumed: 7221, success: true });
+        expect(create.children.map((child) => [child.index, child.programId, child.depth])).toEqual([
+            [0, SYSTEM, 2],
+            [1, TOKEN, 2]
+        ]);
+        expect(create.children[1]).toMatchObject({ unitsConsumed: 1405, success: true });
+        expect(transfer).toMatchObject({ index: 1, success: false, error: 'custom program error: 0x1' });
+    });
+
+    it('leaves success undefined when the logs are truncated', () => {
+        const [instruction] = parseLogs([`Program ${TOKEN} invoke [1]`, 'Log truncated']);
+        expect(instruction.success).toBeUndefined();
+        expect(instruction.logs).toEqual(['Log truncated']);
+    });
+});
+
+describe('simulateTransaction', () => {
+    const payer = Keypair.generate().publicKey;
+    const transaction = new Transaction({ feePayer: payer }).add(
+        SystemProgram.transfer({ fromPubkey: payer, toPubkey: PublicKey.default, lamports: 1 })
+    );
+
+    function tokenData(length: number, amount: number, accountType?: number): Buffer {
+        const data = Buffer.alloc(length);
+        // mint (32 bytes) and owner (32 bytes) come before the amount
+        data.writeBigUInt64LE(BigInt(amount), 64);
+        if (accountType !== undefined) data[165] = accountType;
+        return data;
+    }
+
+    function mockConnection(accounts: { owner: PublicKey; data: Buffer }[], err: unknown = null) {
+        return {
+            getMultipleAccountsInfo: jest
+                .fn()
+                .mockResolvedValue(
+                    accounts.map(({ owner, data }) => ({ owner, data, lamports: 1, executable: false }))
+                ),
+            simulateTransaction: jest.fn().mockResolvedValue({
+                context: { slot: 1 },
+                value: {
+                    err,
+                    logs: [`Program ${SYSTEM} invoke [1]`, `Program ${SYSTEM} success`],
+                    unitsConsumed: 150,
+                    accounts: accounts.map(({ owner, data }) => ({
+                        owner: owner.toBase58(),
+                        data: [data.toString('base64'), 'base64'],
+                        lamports: 2,
+                        executable: false
+                    }))
+                }
+            })
+        } as unknown as Connection;
+    }
+
+    it('reports the amounts of token accounts only', async () => {
+        const accounts = [
+            { owner: TOKEN_PROGRAM_ID, data: tokenData(165, 42) },
+            { owner: TOKEN_PROGRAM_ID, data: tokenData(82, 42) },
+            { owner: TOKEN_2022_PROGRAM_ID, data: tokenData(170, 7, 2) },
+            { owner: TOKEN_2022_PROGRAM_ID, data: tokenData(170, 7, 1) },
+            { owner: SystemProgram.programId, data: tokenData(165, 42) }
+        ];
+        const result = await simulateTransaction({
+            connection: mockConnection(accounts),
+            transaction,
+            accounts: accounts.map(() => Keypair.generate().publicKey)
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.instructions).toHaveLength(1);
+        expect(result.balances.map((balance) => balance.preTokenAmount)).toEqual([
+            '42',
+            undefined,
+            '7',
+            undefined,
+            undefined
+        ]);
+        expect(result.balances[0]).toMatchObject({ preLamports: 1, postLamports: 2, postTokenAmount: '42' });
+    });
+
+    it('classifies the error of a failed simulation', async () => {
+        const result = await simulateTransaction({
+            connection: mockConnection([], { InstructionError: [0, { Custom: 1 }] }),
+            transaction
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBeInstanceOf(SimulationFailedError);
+        expect(result.error).toMatchObject({ index: 0, code: 1 });
+    });
+});
@@ -0,0 +1,169 @@
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Connection,
+    Keypair,
+    PACKET_DATA_SIZE,
+    SystemProgram,
+    TransactionInstruction,
+    VersionedTransaction
+} from '@solana/web3.js';
+import { SimulationFailedError } from '../src/modules/errors';
+import { TransactionHelper } from '../src/modules/TransactionHelper';
+import { TransactionBuilder } from '../src/modules/TransactionBuilder';
+
+describe('TransactionBuilder', () => {
+    const feePayer = Keypair.generate().publicKey;
+    const transfers = (count: number) =>
+        Array.from({ length: count }, () =>
+            SystemProgram.transfer({ fromPubkey: feePayer, toPubkey: Keypair.generate().publicKey, lamports: 1 })
+        );
+    const userIxs = (ixs: TransactionInstruction[]) =>
+        ixs.filter((ix) => !ix.programId.equals(ComputeBudgetProgram.programId));
+
+    describe('pack', () => {
+        it('splits by size only and sets no limit without an estimate', () => {
+            const instructions = transfers(40);
+            const transactions = TransactionBuilder.pack({ instructions, feePayer });
+
+            expect(transactions.length).toBeGreaterThan(1);
+            for (const transaction of transactions) {
+                expect(TransactionHelper.getTxSize(transaction, feePayer)).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+                expect(transaction.instructions).toEqual(userIxs(transaction.instructions));
+            }
+            expect(transactions.flatMap((transaction) => transaction.instructions)).toEqual(instructions);
+        });
+
+        it('keeps each transaction within the compute unit budget', () => {
+            const instructions = transfers(10);
+            const transactions = TransactionBuilder.pack({
+                instructions,
+                feePayer,
+                computeUnits: 300_000,
+                priceInMicroLamports: 1_000
+            });
+
+            expect(transactions.map((transaction) => userIxs(transaction.instructions).length)).toEqual([4, 4, 2]);
+            const [limit, price] = transactions[0].instructions;
+            // the units of the instructions and of the two compute budget instructions
+            expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units).toBe(1_200_300);
+            expect(ComputeBudgetInstruction.decodeSetComputeUnitPrice(price).microLamports).toBe(BigInt(1_000));
+        });
+
+        it('keeps groups together and the instructions in order', () => {
+            const [first, second, third, fourth] = transfers(4);
+            const transactions = TransactionBuilder.pack({
+                instructions: [first, [second, third], fourth],
+                feePayer,
+                computeUnits: (ix) => (ix === third ? 1_000_000 : 200_000)
+            });
+
+            expect(transactions.map((transaction) => userIxs(transaction.instructions))).toEqual([
+                [first],
+                [second, third],
+                [fourth]
+            ]);
+        });
+
+        it('throws if a group does not fit in one transaction', () => {
+            expect(() =>
+                TransactionBuilder.pack({ instructions: [transfers(2)], feePayer, computeUnits: 700_000 })
+            ).toThrow('Instruction group needs 1400150 compute units');
+        });
+    });
+
+    describe('buildV0', () => {
+        const recentBlockhash = Keypair.generate().publicKey.toBase58();
+
+        it('loads the accounts found in the lookup tables through them', () => {
+            const instructions = transfers(3);
+            const recipients = instructions.map((ix) => ix.keys[1].pubkey);
+            const lookupTable = new AddressLookupTableAccount({
+                key: Keypair.generate().publicKey,
+                state: {
+                    deactivationSlot: BigInt('18446744073709551615'),
+                    lastExtendedSlot: 0,
+                    lastExtendedSlotStartIndex: 0,
+                    addresses: [Keypair.generate().publicKey, ...recipients.slice(0, 2)]
+                }
+            });
+
+            const { message } = TransactionBuilder.create()
+                .addIx(instructions)
+                .buildV0({ payer: feePayer, recentBlockhash, lookupTables: [lookupTable] });
+
+            expect(message.addressTableLookups).toEqual([
+                { accountKey: lookupTable.key, writableIndexes: [1, 2], readonlyIndexes: [] }
+            ]);
+            expect(message.staticAccountKeys).toEqual([feePayer, recipients[2], SystemProgram.programId]);
+            expect(message.recentBlockhash).toBe(recentBlockhash);
+        });
+
+        it('keeps every account static without lookup tables', () => {
+            const instructions = transfers(2);
+
+            const { message } = TransactionBuilder.create()
+                .addIx(instructions)
+                .buildV0({ payer: feePayer, recentBlockhash });
+
+            expect(message.addressTableLookups).toEqual([]);
+            expect(message.staticAccountKeys).toHaveLength(4);
+            expect(message.compiledInstructions).toHaveLength(2);
+        });
+    });
+
+    describe('setComputeUnitLimitFromSimulation', () => {
+        const connection = new Connection('http://127.0.0.1:8899');
+        // SetLoadedAccountsDataSizeLimit, which web3.js cannot decode
+        const loadedAccountsDataSizeIx = new TransactionInstruction({
+            keys: [],
+            programId: ComputeBudgetProgram.programId,
+            data: Buffer.from([4, 0, 0, 1, 0])
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('replaces the limit with the units consumed plus the margin', async () => {
+            const simulate = jest
+                .spyOn(connection, 'simulateTransaction')
+                .mockResolvedValue({ context: { slot: 1 }, value: { err: null, logs: [], unitsConsumed: 1_000 } });
+            const [transfer] = transfers(1);
+            const price = ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 5 });
+            const builder = TransactionBuilder.create().addIx([
+                ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+                loadedAccountsDataSizeIx,
+                price,
+                transfer
+            ]);
+
+            await builder.setComputeUnitLimitFromSimulation({ connectionOrConnectionManager: connection, feePayer });
+
+            const [limit, ...rest] = builder.build().instructions;
+            expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units).toBe(1_100);
+            expect(rest).toEqual([loadedAccountsDataSizeIx, price, transfer]);
+            // simulated with the highest limit, without the old one
+            const simulated = simulate.mock.calls[0][0] as VersionedTransaction;
+            expect(simulated.message.compiledInstructions).toHaveLength(4);
+        });
+
+        it('throws the simulation error with its logs', async () => {
+            const logs = ['Program 11111111111111111111111111111111 failed: custom program error: 0x1'];
+            jest.spyOn(connection, 'simulateTransaction').mockResolvedValue({
+                context: { slot: 1 },
+                value: { err: { InstructionError: [0, { Custom: 1 }] }, logs }
+            });
+            const builder = TransactionBuilder.create().addIx(transfers(1));
+
+            const simulation = builder.setComputeUnitLimitFromSimulation({
+                connectionOrConnectionManager: connection,
+                feePayer
+            });
+
+            await expect(simulation).rejects.toBeInstanceOf(SimulationFailedError);
+            await expect(simulation).rejects.toMatchObject({ index: 0, code: 1, logs });
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import { Connection, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { TransactionWrapper } from '../src/modules/TransactionWrapper';
+
+function transfer(payer: Keypair, authority: Keypair): Transaction {
+    return new Transaction({
+        feePayer: payer.publicKey,
+        blockhash: Keypair.generate().publicKey.toBase58(),
+        lastValidBlockHeight: 100
+    }).add(SystemProgram.transfer({ fromPubkey: authority.publicKey, toPubkey: payer.publicKey, lamports: 1 }));
+}
+
+function signedTransfer(): Transaction {
+    const payer = Keypair.generate();
+    const authority = Keypair.generate();
+    const transaction = transfer(payer, authority);
+    transaction.sign(payer, authority);
+    return transaction;
+}
+
+describe('TransactionWrapper', () => {
+    const connection = new Connection('http://127.0.0.1:8899');
+
+    it('keeps the signatures of every signer', async () => {
+        const payer = Keypair.generate();
+        const authority = Keypair.generate();
+        const wrapper = TransactionWrapper.create({ transaction: transfer(payer, authority), connection });
+        const [signed] = await wrapper.sign({ signers: [payer, authority] });
+
+        expect(signed.verifySignatures()).toBe(true);
+        expect(() => signed.serialize()).not.toThrow();
+    });
+
+    describe('sendAndRebroadcast', () => {
+        function mockConnection() {
+            return {
+                sendRawTransaction: jest.fn(async (bytes: Buffer) => bs58.encode(Transaction.from(bytes).signature!)),
+                getSignatureStatuses: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: [null] }),
+                getBlockHeight: jest.fn().mockResolvedValue(50)
+            };
+        }
+
+        it('keeps polling after retryable errors', async () => {
+            const mock = mockConnection();
+            mock.getSignatureStatuses
+                .mockRejectedValueOnce(new Error('fetch failed'))
+                .mockResolvedValueOnce({ context: { slot: 1 }, value: [null] })
+                .mockResolvedValue({
+                    context: { slot: 2 },
+                    value: [{ slot: 2, confirmations: 1, err: null, confirmationStatus: 'confirmed' }]
+                });
+            mock.getBlockHeight.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+            const transaction = signedTransfer();
+            const wrapper = TransactionWrapper.create({ transaction, connection: mock as unknown as Connection });
+
+            const result = await wrapper.sendAndRebroadcast({ lastValidBlockHeight: 100, rebroadcastIntervalMs: 0 });
+
+            expect(result).toMatchObject({ status: 'confirmed', slot: 2, expiries: 0 });
+            expect(mock.getSignatureStatuses).toHaveBeenCalledTimes(3);
+        });
+
+        it('checks the status again if it failed after the blockhash expired', async () => {
+            const mock = mockConnection();
+            mock.getBlockHeight.mockResolvedValue(101);
+            mock.getSignatureStatuses
+                .mockResolvedValueOnce({ context: { slot: 1 }, value: [null] })
+                .mockRejectedValueOnce(new Error('fetch failed'))
+                .mockResolvedValue({
+                    context: { slot: 2 },
+                    value: [{ slot: 2, confirmations: 1, err: null, confirmationStatus: 'confirmed' }]
+                });
+            const transaction = signedTransfer();
+            const wrapper = TransactionWrapper.create({ transaction, connection: mock as unknown as Connection });
+
+            const result = await wrapper.sendAndRebroadcast({ lastValidBlockHeight: 100, rebroadcastIntervalMs: 0 });
+
+            expect(result).toMatchObject({ status: 'confirmed', expiries: 0 });
+        });
+
+        it('throws the last error after too many failures in a row', async () => {
+            const mock = mockConnection();
+            mock.getSignatureStatuses.mockRejectedValue(new Error('503 Service Unavailable: '));
+            const transaction = signedTransfer();
+            const wrapper = TransactionWrapper.create({ transaction, connection: mock as unknown as Connection });
+
+            await expect(
+                wrapper.sendAndRebroadcast({
+                    lastValidBlockHeight: 100,
+                    rebroadcastIntervalMs: 0,
+                    maxConsecutiveFailures: 3
+                })
+            ).rejects.toThrow('503 Service Unavailable');
+            expect(mock.getSignatureStatuses).toHaveBeenCalledTimes(3);
+        });
+
+        it('rebroadcasts after a retryable failure of the first send', async () => {
+            const mock = mockConnection();
+            mock.sendRawTransaction.mockRejectedValueOnce(new Error('fetch failed'));
+            mock.getSignatureStatuses.mockResolvedValueOnce({ context: { slot: 1 }, value: [null] }).mockResolvedValue({
+                context: { slot: 2 },
+                value: [{ slot: 2, confirmations: 1, err: null, confirmationStatus: 'confirmed' }]
+            });
+            const transaction = signedTransfer();
+            const wrapper = TransactionWrapper.create({ transaction, connection: mock as unknown as Connection });
+
+            const result = await wrapper.sendAndRebroadcast({ lastValidBlockHeight: 100, rebroadcastIntervalMs: 0 });
+
+            expect(result).toMatchObject({ status: 'confirmed', attempts: 2 });
+            expect(result.signature).toBe(bs58.encode(transaction.signature!));
+            expect(mock.sendRawTransaction).toHaveBeenCalledTimes(2);
+        });
+
+        it('throws if the wallet does not sign the transaction again', async () => {
+            const mock = {
+                ...mockConnection(),
+                getBlockHeight: jest.fn().mockResolvedValue(101),
+                getLatestBlockhash: jest
+                    .fn()
+                    .mockResolvedValue({
+                        blockhash: Keypair.generate().publicKey.toBase58(),
+                        lastValidBlockHeight: 200
+                    })
+            };
+            const wallet = { publicKey: null, signTransaction: () => undefined, signAllTransactions: () => undefined };
+            const transaction = signedTransfer();
+            const wrapper = TransactionWrapper.create({ transaction, connection: mock as unknown as Connection });
+
+            await expect(
+                wrapper.sendAndRebroadcast({
+                    lastValidBlockHeight: 100,
+                    rebroadcastIntervalMs: 0,
+                    maxResigns: 1,
+                    wallet
+                })
+            ).rejects.toThrow('The wallet did not sign the transaction');
+        });
+
+        it('throws errors that are not retryable', async () => {
+            const mock = mockConnection();
+            mock.getSignatureStatuses.mockRejectedValue(new Error('Invalid params'));
+            const transaction = signedTransfer();
+            const wrapper = TransactionWrapper.create({ transaction, connection: mock as unknown as Connection });
+
+            await expect(
+                wrapper.sendAndRebroadcast({ lastValidBlockHeight: 100, rebroadcastIntervalMs: 0 })
+            ).rejects.toThrow('Invalid params');
+        });
+    });
+});
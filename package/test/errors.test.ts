@@ -0,0 +1,154 @@
+import {
+    SendTransactionError,
+    SolanaJSONRPCError,
+    TransactionExpiredBlockheightExceededError,
+    TransactionExpiredTimeoutError
+} from '@solana/web3.js';
+import {
+    BlockhashExpiredError,
+    InstructionError,
+    InsufficientFundsError,
+    parseError,
+    parseSimulationError,
+    parseTransactionError,
+    RateLimitedError,
+    RpcError,
+    SimulationFailedError,
+    SolToolkitError,
+    TimeoutError,
+    TransactionFailedError
+} from '../src/modules/errors';
+
+describe('parseError', () => {
+    it('returns SolToolkitErrors unchanged', () => {
+        const error = new RpcError('boom', { retryable: true });
+        expect(parseError(error)).toBe(error);
+    });
+
+    it('classifies confirmation timeouts', () => {
+        const cause = new TransactionExpiredTimeoutError('sig', 30);
+        const error = parseError(cause);
+        expect(error).toBeInstanceOf(TimeoutError);
+        expect(error.message).toBe('Timeout of 30000ms exceeded');
+        expect(error.retryable).toBe(true);
+        expect(error.cause).toBe(cause);
+    });
+
+    it('classifies expired blockhashes', () => {
+        expect(parseError(new TransactionExpiredBlockheightExceededError('sig'))).toBeInstanceOf(BlockhashExpiredError);
+        const preflight = new SendTransactionError('failed to send transaction: Blockhash not found', []);
+        expect(parseError(preflight)).toBeInstanceOf(BlockhashExpiredError);
+    });
+
+    it('classifies rate limits', () => {
+        const error = parseError(
+            new Error('Server responded with 429 Too Many Requests.  Retrying after 500ms delay...')
+        );
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect(error.retryable).toBe(true);
+    });
+
+    it('classifies insufficient funds from the message or the logs', () => {
+        const fromMessage = parseError(
+            new SendTransactionError(
+                'Transaction simulation failed: Attempt to debit an account but found no record of a prior credit.'
+            )
+        );
+        expect(fromMessage).toBeInstanceOf(InsufficientFundsError);
+
+        const fromLogs = parseError(
+            new SendTransactionError(
+                'Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1',
+                ['Program log: Error: insufficient funds']
+            )
+        );
+        expect(fromLogs).toBeInstanceOf(InsufficientFundsError);
+        expect(fromLogs.retryable).toBe(false);
+    });
+
+    it('classifies failed preflight checks', () => {
+        const logs = ['Program log: Instruction: Transfer', 'Program failed'];
+        const error = parseError(
+            new SendTransactionError(
+                'failed to send transaction: Transaction simulation failed: Error processing Instruction 1: custom program error: 0x1771',
+                logs
+            )
+        );
+        expect(error).toBeInstanceOf(SimulationFailedError);
+        expect(error).toMatchObject({ index: 1, code: 0x1771, logs, retryable: false });
+    });
+
+    it('marks network failures and 5xx responses retryable', () => {
+        expect(parseError(new Error('request to https://rpc failed, reason: socket hang up')).retryable).toBe(true);
+        expect(parseError(new Error('503 Service Unavailable')).retryable).toBe(true);
+        expect(parseError(new Error('invalid param')).retryable).toBe(false);
+    });
+
+    it('reads the HTTP status from the error before its message', () => {
+        expect(parseError(Object.assign(new Error('Too Many Requests'), { status: 429 }))).toBeInstanceOf(
+            RateLimitedError
+        );
+        expect(parseError(Object.assign(new Error('Bad Gateway'), { statusCode: 502 })).retryable).toBe(true);
+        expect(parseError(Object.assign(new Error('fetch failed'), { status: 400 })).retryable).toBe(false);
+    });
+
+    it('does not classify by numbers elsewhere in the message', () => {
+        const error = parseError(
+            new SolanaJSONRPCError({ code: -32602, message: 'invalid amount 429, expected at most 500' })
+        );
+        expect(error).toBeInstanceOf(RpcError);
+        expect(error.retryable).toBe(false);
+        expect(parseError(new Error('account 503 is not initialized')).retryable).toBe(false);
+    });
+
+    it('keeps the JSON-RPC error code', () => {
+        const error = parseError(new SolanaJSONRPCError({ code: -32602, message: 'Invalid params' }));
+        expect(error).toBeInstanceOf(RpcError);
+        expect(error).toMatchObject({ code: -32602, retryable: false });
+    });
+
+    it('accepts values that are not errors', () => {
+        expect(parseError('fetch failed')).toMatchObject({ message: 'fetch failed', retryable: true });
+        expect(parseError({ message: 'not an error' }).message).toBe('not an error');
+        expect(parseError(undefined)).toBeInstanceOf(SolToolkitError);
+    });
+});
+
+describe('parseTransactionError', () => {
+    it('classifies instruction errors', () => {
+        const error = parseTransactionError({ InstructionError: [2, { Custom: 6001 }] });
+        expect(error).toBeInstanceOf(InstructionError);
+        expect(error).toMatchObject({ index: 2, code: 6001, retryable: false });
+    });
+
+    it('classifies insufficient funds', () => {
+        expect(parseTransactionError({ InstructionError: [0, 'InsufficientFunds'] })).toBeInstanceOf(
+            InsufficientFundsError
+        );
+        expect(parseTransactionError('InsufficientFundsForFee')).toBeInstanceOf(InsufficientFundsError);
+        expect(parseTransactionError({ InsufficientFundsForRent: { account_index: 1 } })).toBeInstanceOf(
+            InsufficientFundsError
+        );
+    });
+
+    it('classifies expired blockhashes', () => {
+        expect(parseTransactionError('BlockhashNotFound')).toBeInstanceOf(BlockhashExpiredError);
+    });
+
+    it('falls back to TransactionFailedError', () => {
+        const error = parseTransactionError('AccountInUse', ['log']);
+        expect(error.constructor).toBe(TransactionFailedError);
+        expect(error).toMatchObject({ transactionError: 'AccountInUse', logs: ['log'] });
+    });
+});
+
+describe('parseSimulationError', () => {
+    it('keeps the classification as the cause', () => {
+        const logs = ['Program 11111111111111111111111111111111 failed: custom program error: 0x1'];
+        const error = parseSimulationError({ InstructionError: [0, { Custom: 1 }] }, logs);
+        expect(error).toBeInstanceOf(SimulationFailedError);
+        expect(error).toMatchObject({ index: 0, code: 1, logs });
+        expect(error.cause).toBeInstanceOf(InstructionError);
+        expect(error.message).toContain(logs[0]);
+    });
+});